@@ -0,0 +1,22 @@
+// Usage: npm run calibrate:presets
+// Prints every preset × country against meta.targetP50Range and suggests scaling factors.
+
+import factorsJson from "@/config/factors.json";
+import countriesJson from "@/config/countries.json";
+import currenciesJson from "@/config/currencies.json";
+import { calibratePresets } from "@/lib/calibrate";
+
+const config = { ...(factorsJson as any), ...(countriesJson as any), ...(currenciesJson as any) };
+const report = calibratePresets(config);
+
+console.log(`P50 in ${report.targetCurrency}\n`);
+for (const r of report.rows) {
+  const mark = r.status === "within" ? "ok    " : r.status === "below" ? "LOW   " : "HIGH  ";
+  console.log(`${mark}${r.presetId.padEnd(24)} ${r.country}  ${String(r.p50).padStart(8)}  target ${r.target[0]}–${r.target[1]}  ×${r.scaleToFit}`);
+}
+
+console.log("\nSuggested uniform scaling:");
+if (!report.suggestions.length) console.log("  none improves the fit");
+for (const s of report.suggestions) {
+  console.log(`  ${s.kind.padEnd(5)} ${s.id.padEnd(20)} ×${s.factor}  in range ${s.withinBefore} → ${s.withinAfter} of ${s.total}`);
+}
@@ -0,0 +1,35 @@
+// Usage: npm run lead:receiver
+// Local stand-in for the lead webhook. Point the app at it with
+//   LEAD_WEBHOOK_URL=http://localhost:4000 LEAD_WEBHOOK_SECRET=dev-secret npm run dev
+// and start it with the same LEAD_WEBHOOK_SECRET. LEAD_RECEIVER_FAIL=2 answers the first two requests with 503 to exercise retries.
+
+import { createServer } from "node:http";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from "@/lib/webhook";
+
+const port = Number(process.env.LEAD_RECEIVER_PORT ?? 4000);
+const secret = process.env.LEAD_WEBHOOK_SECRET;
+let failuresLeft = Number(process.env.LEAD_RECEIVER_FAIL ?? 0);
+
+createServer(async (req, res) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const body = Buffer.concat(chunks).toString("utf8");
+
+  if (failuresLeft > 0) {
+    failuresLeft--;
+    console.log(`simulated failure (${failuresLeft} left)`);
+    res.writeHead(503).end();
+    return;
+  }
+
+  const timestamp = String(req.headers[TIMESTAMP_HEADER] ?? "");
+  const signature = String(req.headers[SIGNATURE_HEADER] ?? "");
+  const verified = secret ? await verifySignature(secret, timestamp, body, signature) : null;
+  console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}  signature: ${verified === null ? "not checked (no secret)" : verified ? "valid" : "INVALID"}`);
+  try {
+    console.log(JSON.stringify(JSON.parse(body), null, 2));
+  } catch {
+    console.log(body);
+  }
+  res.writeHead(verified === false ? 401 : 200, { "content-type": "application/json" }).end(JSON.stringify({ received: true }));
+}).listen(port, () => console.log(`lead receiver listening on http://localhost:${port}`));
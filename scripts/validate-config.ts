@@ -0,0 +1,18 @@
+// Usage: npm run validate:config
+// Exits non-zero when the config has errors; warnings are printed but do not fail.
+
+import factorsJson from "@/config/factors.json";
+import countriesJson from "@/config/countries.json";
+import currenciesJson from "@/config/currencies.json";
+import factorsI18n from "@/config/factors.i18n.json";
+import { validateConfig } from "@/lib/validate";
+
+const config = { ...(factorsJson as any), ...(countriesJson as any), ...(currenciesJson as any) };
+const issues = validateConfig(config, factorsI18n as any);
+
+for (const issue of issues) {
+  console.log(`${issue.level.padEnd(7)} ${issue.path}  ${issue.message}`);
+}
+const errors = issues.filter((i) => i.level === "error").length;
+console.log(`\n${errors} error(s), ${issues.length - errors} warning(s)`);
+process.exit(errors ? 1 : 0);
@@ -0,0 +1,189 @@
+"use client";
+
+export const runtime = 'edge';
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useParams } from "next/navigation";
+import { isLang, type Lang, tGroup } from "@/lib/i18n";
+import { renderLeverCard } from "@/components/LeverFields";
+
+import stringsJson from "@/config/strings.json";
+import factorsJson from "@/config/factors.json";
+import countriesJson from "@/config/countries.json";
+import currenciesJson from "@/config/currencies.json";
+import {
+  computeEstimate,
+  visibleLeverIdSet,
+  applyDependencies,
+  applyPreset,
+  type Config,
+  type Selections,
+  type Lever
+} from "@/lib/estimate";
+import { validateSelections, type ValidationIssue } from "@/lib/validate";
+import {
+  EMBED_PROTOCOL_VERSION,
+  parseEmbedOptions,
+  isEmbedCommand,
+  type EmbedCommand,
+  type EmbedEvent,
+  type EmbedOptions
+} from "@/lib/embed";
+
+/* Chrome-free calculator for partner sites: lever groups and results only, driven over postMessage. */
+
+const cfg = { ...(factorsJson as any), ...(countriesJson as any), ...(currenciesJson as any) } as Config;
+const STR: Record<Lang, Record<string, string>> = stringsJson as any;
+
+function cx(...classes: Array<string | false | null | undefined>) {
+  return classes.filter(Boolean).join(" ");
+}
+function fmtMoney(n: number) { return n.toLocaleString(undefined, { maximumFractionDigits: 0 }); }
+
+/** Lever defaults, then the preset, then the country from the query string */
+function startingSelections(opts: Pick<EmbedOptions, "presetId" | "country">): Selections {
+  let s: Selections = { _country: cfg.countries[0].code, _roleAdjust: {}, _rateOverrides: {}, _taxOverrides: {} };
+  for (const l of cfg.levers as any[]) {
+    if (l.default !== undefined) s[l.id] = l.default;
+    if (l.type === "multiselect" && s[l.id] === undefined) s[l.id] = [];
+  }
+  if (opts.presetId) s = applyPreset(cfg, s, opts.presetId);
+  if (opts.country) s._country = opts.country;
+  return s;
+}
+
+export default function Embed() {
+  const params = useParams<{ lang?: string }>();
+  const lang: Lang = isLang(params?.lang || "") ? (params!.lang as Lang) : "en";
+  const T = STR[lang];
+
+  const [opts, setOpts] = useState<EmbedOptions | null>(null);
+  const [selections, setSelections] = useState<Selections>(() => startingSelections({}));
+  const [locked, setLocked] = useState<string[]>([]);
+  const rootRef = useRef<HTMLElement>(null);
+
+  const post = (event: EmbedEvent) => {
+    if (!opts?.parentOrigin || window.parent === window) return;
+    window.parent.postMessage(event, opts.parentOrigin);
+  };
+
+  // options come from the query string once; the parent can change things later through commands
+  useEffect(() => {
+    const parsed = parseEmbedOptions(cfg, new URLSearchParams(window.location.search));
+    setOpts(parsed);
+    setLocked(parsed.locked);
+    setSelections(startingSelections(parsed));
+  }, []);
+
+  useEffect(() => {
+    if (opts) post({ type: "codecost:ready", version: EMBED_PROTOCOL_VERSION, configVersion: cfg.version });
+  }, [opts]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // dependencies (UI)
+  useEffect(() => {
+    const adjusted = applyDependencies(cfg, selections).selections;
+    if (JSON.stringify(adjusted) !== JSON.stringify(selections)) setSelections(adjusted);
+  }, [selections]);
+
+  const visibleIds = useMemo(() => visibleLeverIdSet(cfg, selections), [selections]);
+  const result = useMemo(() => computeEstimate(cfg, selections), [selections]);
+  const curr = result.currencySymbol;
+
+  useEffect(() => {
+    post({ type: "codecost:estimate", version: EMBED_PROTOCOL_VERSION, selections, result });
+  }, [result, opts]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // commands from the parent page
+  useEffect(() => {
+    if (!opts?.parentOrigin) return;
+    const fail = (command: string, issues: ValidationIssue[]) =>
+      post({ type: "codecost:error", version: EMBED_PROTOCOL_VERSION, command, issues });
+    const onMessage = (e: MessageEvent) => {
+      if (e.origin !== opts.parentOrigin || e.source !== window.parent) return;
+      if (!isEmbedCommand(e.data)) return;
+      const cmd: EmbedCommand = e.data;
+      switch (cmd.type) {
+        case "codecost:setSelections": {
+          const issues = validateSelections(cfg, cmd.selections);
+          if (issues.some((i) => i.level === "error")) return fail(cmd.type, issues);
+          setSelections((s) => ({ ...s, ...cmd.selections }));
+          return;
+        }
+        case "codecost:applyPreset":
+          if (!cfg.presets?.some((p) => p.id === cmd.presetId)) {
+            return fail(cmd.type, [{ level: "error", path: "presetId", message: `unknown preset "${cmd.presetId}"` }]);
+          }
+          setSelections((s) => applyPreset(cfg, s, cmd.presetId));
+          return;
+        case "codecost:setCountry":
+          if (!cfg.countries.some((c) => c.code === cmd.country)) {
+            return fail(cmd.type, [{ level: "error", path: "country", message: `unknown country "${cmd.country}"` }]);
+          }
+          setSelections((s) => ({ ...s, _country: cmd.country }));
+          return;
+        case "codecost:lock":
+          setLocked(Array.isArray(cmd.leverIds) ? cmd.leverIds.filter((id) => cfg.levers.some((l) => l.id === id)) : []);
+          return;
+        case "codecost:reset":
+          setSelections(startingSelections(opts));
+          return;
+        case "codecost:getEstimate":
+          post({ type: "codecost:estimate", version: EMBED_PROTOCOL_VERSION, selections, result });
+          return;
+      }
+    };
+    window.addEventListener("message", onMessage);
+    return () => window.removeEventListener("message", onMessage);
+  }); // re-subscribed every render so getEstimate answers with the latest result
+
+  // let the parent size the iframe to its content
+  useEffect(() => {
+    const el = rootRef.current;
+    if (!el || !opts) return;
+    const ro = new ResizeObserver(() => post({ type: "codecost:resize", version: EMBED_PROTOCOL_VERSION, height: el.scrollHeight }));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [opts]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!opts) return null;
+  const isDark = opts.theme === "dark";
+  const accent = opts.accent;
+  const groups = (cfg.ui?.groups ?? []).filter((g) => !opts.hiddenGroups.includes(g.id));
+
+  return (
+    <main ref={rootRef} className={cx("p-4 sm:p-6", isDark ? "bg-neutral-950 text-neutral-100" : "bg-white text-neutral-900")}>
+      <div className="space-y-8">
+        {groups.map((group) => {
+          const levers = (cfg.levers as Lever[]).filter((l) => l.group === group.id && visibleIds.has(l.id));
+          if (levers.length === 0) return null;
+          return (
+            <section key={group.id}>
+              <h2 className="text-lg font-medium mb-3">{tGroup(lang, group.id).label ?? group.id}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {levers.map((lever) =>
+                  renderLeverCard(lever, selections, setSelections, isDark, lang, { locked: locked.includes(lever.id), accent })
+                )}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+
+      <section className="mt-8 grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {(["p50", "p80"] as const).map((band) => (
+          <div
+            key={band}
+            className={cx("rounded-2xl p-5 border", isDark ? "border-neutral-800 bg-neutral-900/40" : "border-neutral-200 bg-white/80")}
+            style={accent ? { borderColor: accent } : undefined}
+          >
+            <h3 className="text-base font-medium">{T[band]}</h3>
+            <div className="mt-3 text-2xl font-semibold" style={accent ? { color: accent } : undefined}>
+              {curr}{fmtMoney(result[band].cost)}
+            </div>
+            <div className="text-sm text-neutral-400">{result[band].hours.toFixed(1)} h</div>
+          </div>
+        ))}
+      </section>
+    </main>
+  );
+}
@@ -2,27 +2,51 @@
 
 export const runtime = 'edge';
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { isLang, type Lang, getAssumptions, getExclusions, tRateHelp, tGroup, tLever, tOptionLabel, tPresetLabel } from '@/lib/i18n';
 import ExportPdfDialog from "@/components/ExportPdfDialog";
+import { renderLeverCard, HelpDot, SelectFancy, OTHER_ROLES } from "@/components/LeverFields";
 
 import stringsJson from "@/config/strings.json";
 import factorsJson from "@/config/factors.json";
 import countriesJson from "@/config/countries.json";
+import currenciesJson from "@/config/currencies.json";
 import {
   computeEstimate,
+  simulateEstimate,
   visibleLeverIdSet,
+  applyDependencies,
   applyPreset as applyPresetLib,
   getCountryBaseRates,
+  type CustomItem,
+  type RecurringCosts,
   type Selections,
-  type Lever
+  type Lever,
+  type LedgerEntry
 } from "@/lib/estimate";
+import { computeSchedule, scheduledRoles, type Schedule } from "@/lib/schedule";
+import { compareScenarios, type Scenario, type ScenarioComparison } from "@/lib/compare";
+import { SHARE_PARAM, encodeSelections, decodeSelections, readSelections } from "@/lib/share";
+import { analyzeSensitivity, type SensitivityChange, type SensitivityResult } from "@/lib/sensitivity";
+import type { BudgetMetric, BudgetResult } from "@/lib/budget";
+import type { BudgetRequest } from "@/lib/budget.worker";
+import { recordChange, undo as undoHistory, redo as redoHistory, type History } from "@/lib/history";
+import { createClientBrowser, isSupabaseConfigured } from "@/lib/supabase";
+import {
+  listEstimates,
+  saveEstimate,
+  renameEstimate,
+  duplicateEstimate,
+  deleteEstimate,
+  toSavedEstimate,
+  type SavedEstimate
+} from "@/lib/savedEstimates";
 
 /* ---------- types, constants ---------- */
 
-type Cfg = typeof factorsJson & typeof countriesJson;
-type Role = "design" | "frontend" | "backend" | "pm" | "qa" | "devops" | "seo" | "content";
+type Cfg = typeof factorsJson & typeof countriesJson & typeof currenciesJson;
+type Role = "design" | "frontend" | "backend" | "pm" | "qa" | "devops" | "seo" | "content" | "fullstack";
 const SIMPLE_PRESET_ID = "offerte_simple_website";
 
 const STR: Record<Lang, Record<string, string>> = stringsJson as any;
@@ -59,7 +83,26 @@ function useThemeDefault(): [Theme, (t: Theme) => void, boolean] {
 
 /* ---------- utils ---------- */
 
+const AUTOSAVE_KEY = "codecost.autosave.v1";
+type Autosave = { selections: Selections; presetId: string; scenarios: Scenario[] };
+
+function loadAutosave(): Autosave | null {
+  try {
+    const raw = window.localStorage.getItem(AUTOSAVE_KEY);
+    const data = raw ? JSON.parse(raw) : null;
+    const isObject = (v: unknown) => !!v && typeof v === "object" && !Array.isArray(v);
+    return isObject(data) && isObject(data.selections) ? data : null;
+  } catch {
+    return null;
+  }
+}
+function saveAutosave(data: Autosave) {
+  try { window.localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(data)); } catch { /* storage full or disabled */ }
+}
+
 function fmtMoney(n: number) { return n.toLocaleString(undefined, { maximumFractionDigits: 0 }); }
+/** 0.125 → "12.5" */
+function fmtPercent(fraction: number) { return String(Math.round(fraction * 1000) / 10); }
 function clamp(n: number, min?: number, max?: number) {
   if (typeof n !== "number" || Number.isNaN(n)) return min ?? 0;
   if (min != null && n < min) return min;
@@ -77,23 +120,6 @@ function shallowEqual(a: Record<string, any>, b: Record<string, any>) {
   }
   return true;
 }
-function applyDependenciesUI(cfg: Cfg, base: Selections): { selections: Selections; hidden: Set<string> } {
-  let selections = { ...base };
-  const hidden = new Set<string>();
-  for (let pass = 0; pass < 6; pass++) {
-    let changed = false;
-    for (const dep of (cfg as any).dependencies ?? []) {
-      if (selections[dep.if.id] === dep.if.equals) {
-        for (const id of dep.then?.hide ?? []) hidden.add(id);
-        for (const adj of dep.then?.adjust ?? []) {
-          if (selections[adj.id] !== adj.set) { selections = { ...selections, [adj.id]: adj.set }; changed = true; }
-        }
-      }
-    }
-    if (!changed) break;
-  }
-  return { selections, hidden };
-}
 function cx(...classes: Array<string | false | null | undefined>) {
   return classes.filter(Boolean).join(" ");
 }
@@ -107,7 +133,7 @@ export default function Home() {
   const [countryTouched, setCountryTouched] = useState(false);
 
   // compose config (split files)
-  const cfg: Cfg = useMemo(() => ({ ...(factorsJson as any), ...(countriesJson as any) }), []);
+  const cfg: Cfg = useMemo(() => ({ ...(factorsJson as any), ...(countriesJson as any), ...(currenciesJson as any) }), []);
 
   // language & theme (menu) — derive from URL, keep in sync with param
   const initialLang: Lang = isLang(params?.lang || "") ? (params!.lang as Lang) : "en";
@@ -150,6 +176,19 @@ const initialCountry = useMemo(() => {
   const [showRoleModal, setShowRoleModal] = useState(false);
   const [showRateModal, setShowRateModal] = useState(false);
   const [showLogin, setShowLogin] = useState(false);
+  const [showEstimates, setShowEstimates] = useState(false);
+  const [userEmail, setUserEmail] = useState<string | null>(null);
+  const [showTeamModal, setShowTeamModal] = useState(false);
+  const [showItemsModal, setShowItemsModal] = useState(false);
+  const [showScenarioModal, setShowScenarioModal] = useState(false);
+  const [showBudgetModal, setShowBudgetModal] = useState(false);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [shareRestored, setShareRestored] = useState(false);
+  const [shareNotice, setShareNotice] = useState("");
+  const [history, setHistory] = useState<History>({ past: [], future: [] });
+  const [showHistory, setShowHistory] = useState(false);
+  // `pending`: the state a restore settles on (after the country sync and dependency effects); nothing is recorded until then
+  const historyRef = useRef<{ last: Selections; skip: boolean; pending: Selections | null }>({ last: initialSelections, skip: false, pending: null });
 
   useEffect(() => {
     if (countryTouched) return;
@@ -157,12 +196,112 @@ const initialCountry = useMemo(() => {
   }, [initialCountry, countryTouched]);
   
 
+  /** What stored selections (links, autosave, saved estimates) are merged onto */
+  const leverDefaults = () => {
+    const base: Selections = { _roleAdjust: {}, _rateOverrides: {}, _taxOverrides: {} };
+    for (const l of cfg.levers as any[]) {
+      if (l.default !== undefined) base[l.id] = l.default;
+      if (l.type === "multiselect" && base[l.id] === undefined) base[l.id] = [];
+    }
+    return base;
+  };
+
+  // restore a shared link (?s=…) or the autosave once, then keep the URL and storage in sync
+  useEffect(() => {
+    const param = new URLSearchParams(window.location.search).get(SHARE_PARAM);
+    const decoded = param ? decodeSelections(cfg as any, param) : null;
+    const saved = decoded ? null : loadAutosave();
+    // the autosave may predate the current config: it goes through the same checks as a link, onto the lever defaults
+    const restored = decoded ?? (saved && readSelections(cfg as any, saved.selections));
+    if (restored) {
+      const next = { ...leverDefaults(), ...restored.selections };
+      historyRef.current.pending = applyDependencies(cfg as any, { ...next, _country: next._country ?? country }).selections;
+      setPresetId((cfg.presets ?? []).some((p: any) => p.id === saved?.presetId) ? saved!.presetId : "");
+      setSelections(next);
+      if (next._country) { setCountryTouched(true); setCountry(next._country); }
+    }
+    if (saved && Array.isArray(saved.scenarios)) {
+      setScenarios(saved.scenarios
+        .filter((sc) => sc && typeof sc.id === "string" && sc.selections && typeof sc.selections === "object")
+        .map((sc) => ({ ...sc, selections: readSelections(cfg as any, sc.selections).selections })));
+    }
+    if (decoded?.dropped.length) setShareNotice(T.linkDropped.replace("{items}", decoded.dropped.join(", ")));
+    if (param && !decoded) setShareNotice(T.linkInvalid);
+    setShareRestored(true);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (!shareRestored) return;
+    const url = new URL(window.location.href);
+    url.searchParams.set(SHARE_PARAM, encodeSelections(cfg as any, selections));
+    window.history.replaceState(window.history.state, "", url);
+  }, [cfg, selections, shareRestored]);
+
+  useEffect(() => {
+    if (shareRestored) saveAutosave({ selections, presetId, scenarios });
+  }, [selections, presetId, scenarios, shareRestored]);
+
+  // undo/redo: every selection change is recorded unless it came from the history itself
+  useEffect(() => {
+    const h = historyRef.current;
+    const before = h.last;
+    h.last = selections;
+    if (h.pending) {
+      if (shallowEqual(h.pending, selections)) h.pending = null;
+      return;
+    }
+    if (h.skip) { h.skip = false; return; }
+    setHistory(prev => recordChange(prev, before, selections));
+  }, [selections]);
+
+  const applyHistory = (step: { history: History; selections?: Selections }) => {
+    setHistory(step.history);
+    if (!step.selections) return;
+    historyRef.current.skip = true;
+    setSelections(step.selections);
+    if (step.selections._country) setCountry(step.selections._country);
+  };
+  const onUndo = (steps = 1) => applyHistory(undoHistory(history, steps));
+  const onRedo = () => applyHistory(redoHistory(history));
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) { e.preventDefault(); onUndo(); }
+      else if ((key === "z" && e.shiftKey) || key === "y") { e.preventDefault(); onRedo(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  // accounts: follow the Supabase session (sign-in link, sign-out, other tabs)
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+    const { data } = createClientBrowser().auth.onAuthStateChange((_event, session) => {
+      setUserEmail(session?.user.email ?? null);
+      if (!session) setShowEstimates(false);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setShareNotice(T.linkCopied);
+    } catch {
+      setShareNotice(window.location.href);
+    }
+  };
+
   // sync country into selections
   useEffect(() => { setSelections(prev => ({ ...prev, _country: country })); }, [country]);
 
   // dependencies (UI)
   useEffect(() => {
-    const adjusted = applyDependenciesUI(cfg as any, selections).selections;
+    const adjusted = applyDependencies(cfg as any, selections).selections;
     if (!shallowEqual(adjusted, selections)) setSelections(adjusted);
   }, [selections, cfg]);
 
@@ -171,8 +310,15 @@ const initialCountry = useMemo(() => {
 
   // estimate & country
   const result = useMemo(() => computeEstimate(cfg as any, selections), [cfg, selections]);
+  // bands and cost drivers re-run many estimates; a deferred copy lets typing in number fields stay responsive
+  const deferredSelections = useDeferredValue(selections);
+  const simulation = useMemo(() => simulateEstimate(cfg as any, deferredSelections), [cfg, deferredSelections]);
+  const schedule = useMemo(() => computeSchedule(cfg as any, result, selections), [cfg, result, selections]);
+  const shownBands = ((cfg.outputConfig?.showBands ?? []) as string[]).filter((b) => simulation.percentiles[b]);
   const curr = result.currencySymbol;
   const countryObj = cfg.countries.find((c: any) => c.code === country)!;
+  const comparison = useMemo(() => compareScenarios(cfg as any, scenarios), [cfg, scenarios]);
+  const sensitivity = useMemo(() => analyzeSensitivity(cfg as any, deferredSelections, { limit: 8 }), [cfg, deferredSelections]);
 
   // presets
   const presetOptions = (cfg.presets ?? [])
@@ -186,6 +332,30 @@ const initialCountry = useMemo(() => {
     setSelections({ ...next, _roleAdjust: selections._roleAdjust ?? {}, _rateOverrides: selections._rateOverrides ?? {}, _taxOverrides: selections._taxOverrides ?? {} });
     setCountry(next._country || cfg.countries[0].code);
   };
+  const saveScenario = (name: string) =>
+    setScenarios(list => [...list, { id: Date.now().toString(36), name: name || `${T.scenario} ${list.length + 1}`, selections }]);
+  const openScenario = (sc: Scenario) => {
+    setPresetId("");
+    setSelections(sc.selections);
+    setCountry(sc.selections._country || cfg.countries[0].code);
+    setCountryTouched(true);
+  };
+  // rows can predate the current config: read them like a shared link and say what changed
+  const openSaved = (row: SavedEstimate) => {
+    const raw = row.selections && typeof row.selections === "object" && !Array.isArray(row.selections) ? row.selections : {};
+    const { selections: stored, dropped } = readSelections(cfg as any, raw);
+    const next: Selections = { ...leverDefaults(), ...stored };
+    if (!next._country && cfg.countries.some((c: any) => c.code === row.country)) next._country = row.country;
+    setPresetId("");
+    setSelections(next);
+    if (next._country) setCountry(next._country);
+    setCountryTouched(true);
+    const notice = [
+      row.config_version !== cfg.version ? T.savedOlderConfig.replace("{name}", row.name) : "",
+      dropped.length ? T.savedDropped.replace("{items}", dropped.join(", ")) : "",
+    ].filter(Boolean).join(" ");
+    setShareNotice(notice);
+  };
   const onPresetChange = (id: string) => { setPresetId(id); if (id) applyPreset(id); };
   const onReset = () => {
     setPresetId(SIMPLE_PRESET_ID);
@@ -221,7 +391,7 @@ const initialCountry = useMemo(() => {
                 const next = (v as Lang);
                 setLang(next);
                 // stay on the same page and just switch locale prefix
-                router.replace(`/${next}`);
+                router.replace(`/${next}${window.location.search}`);
               }}
               options={[
                 { value: "en", label: "EN" },
@@ -240,7 +410,7 @@ const initialCountry = useMemo(() => {
               isDark={isDark}
               widthClass="w-[120px]"
             />
-            {/* <Button variant="solid" onClick={() => setShowLogin(true)} isDark={isDark}>{T.login}</Button> */}
+            <Button variant="solid" onClick={() => setShowLogin(true)} isDark={isDark}>{userEmail ?? T.login}</Button>
           </div>
         </div>
       </nav>
@@ -263,6 +433,15 @@ const initialCountry = useMemo(() => {
               isDark={isDark}
             />
 
+            <SelectFancy
+              ariaLabel={T.displayCurrency}
+              value={result.currency}
+              onChange={(ccy) => setSelections(s => ({ ...s, _displayCurrency: ccy }))}
+              options={Object.keys(cfg.currencies).map((c) => ({ value: c, label: c }))}
+              isDark={isDark}
+              widthClass="w-[96px]"
+            />
+
             <Button variant="outline" onClick={() => setShowRateModal(true)} isDark={isDark}>{T.editRates}</Button>
             {cfg.presets?.length ? (
               <SelectFancy
@@ -274,9 +453,20 @@ const initialCountry = useMemo(() => {
                 widthClass="w-[220px]"
               />
             ) : null}
+            <Button variant="outline" onClick={() => setShowScenarioModal(true)} isDark={isDark}>
+              {T.scenarios}{scenarios.length ? ` (${scenarios.length})` : ""}
+            </Button>
+            <Button variant="outline" onClick={() => setShowBudgetModal(true)} isDark={isDark}>{T.budget}</Button>
+            {userEmail && <Button variant="outline" onClick={() => setShowEstimates(true)} isDark={isDark}>{T.myEstimates}</Button>}
+            <Button variant="outline" onClick={copyLink} isDark={isDark}>{T.copyLink}</Button>
+            <Button variant="outline" onClick={() => onUndo()} disabled={!history.past.length} isDark={isDark}>{T.undo}</Button>
+            <Button variant="outline" onClick={() => setShowHistory(true)} isDark={isDark}>{T.history}</Button>
             <Button variant="outline" onClick={onReset} isDark={isDark}>{T.reset}</Button>
           </div>
         </header>
+        {shareNotice && (
+          <p className={cx("mt-3 text-sm break-all", isDark ? "text-neutral-400" : "text-neutral-600")} role="status">{shareNotice}</p>
+        )}
 
         {/* Groups */}
         <div className="mt-6 sm:mt-8 space-y-8">
@@ -303,28 +493,158 @@ const initialCountry = useMemo(() => {
           <Card title={T.p50} isDark={isDark}>
             <BigNumber label="Hours" value={result.p50.hours.toFixed(1)} />
             <BigNumber label="Cost" value={`${curr}${fmtMoney(result.p50.cost)}`} />
+            <VatRows band={result.p50} vatPercent={result.vat.percent} curr={curr} T={T} isDark={isDark} />
+            <TcoRows recurring={result.recurring} band="p50" curr={curr} T={T} isDark={isDark} />
+            {result.fx.base !== result.currency && (
+              <p className="text-xs text-neutral-500">
+                {T.fxNote
+                  .replace("{from}", result.fx.base)
+                  .replace("{rate}", result.fx.rate.toFixed(4))
+                  .replace("{to}", result.currency)
+                  .replace("{date}", result.fx.date ?? "—")}
+              </p>
+            )}
           </Card>
           <Card title={T.p80} isDark={isDark}>
             <BigNumber label="Hours" value={result.p80.hours.toFixed(1)} />
             <BigNumber label="Cost" value={`${curr}${fmtMoney(result.p80.cost)}`} />
+            <VatRows band={result.p80} vatPercent={result.vat.percent} curr={curr} T={T} isDark={isDark} />
+            <TcoRows recurring={result.recurring} band="p80" curr={curr} T={T} isDark={isDark} />
           </Card>
           <Card
             title={T.breakdown}
-            action={<Button variant="outline" size="xs" onClick={() => setShowRoleModal(true)} isDark={isDark}>{STR[lang].edit}</Button>}
+            action={
+              <div className="flex gap-2">
+                <Button variant="outline" size="xs" onClick={() => setShowItemsModal(true)} isDark={isDark}>{T.customItems}</Button>
+                <Button variant="outline" size="xs" onClick={() => setShowRoleModal(true)} isDark={isDark}>{STR[lang].edit}</Button>
+              </div>
+            }
             isDark={isDark}
           >
             <ListRow label="Design" value={`${result.hoursByRole.design.toFixed(1)} h (${curr}${fmtMoney(result.costByRole.design)})`} />
-            <ListRow label="Frontend" value={`${result.hoursByRole.frontend.toFixed(1)} h (${curr}${fmtMoney(result.costByRole.frontend)})`} />
-            <ListRow label="Backend" value={`${result.hoursByRole.backend.toFixed(1)} h (${curr}${fmtMoney(result.costByRole.backend)})`} />
+            {result.staffing === "fullstack" ? (
+              <ListRow label="Fullstack" value={`${result.hoursByRole.fullstack.toFixed(1)} h (${curr}${fmtMoney(result.costByRole.fullstack)})`} />
+            ) : (
+              <>
+                <ListRow label="Frontend" value={`${result.hoursByRole.frontend.toFixed(1)} h (${curr}${fmtMoney(result.costByRole.frontend)})`} />
+                <ListRow label="Backend" value={`${result.hoursByRole.backend.toFixed(1)} h (${curr}${fmtMoney(result.costByRole.backend)})`} />
+              </>
+            )}
             <ListRow label="Content" value={`${result.hoursByRole.content.toFixed(1)} h (${curr}${fmtMoney(result.costByRole.content)})`} />
             <ListRow label="SEO" value={`${result.hoursByRole.seo.toFixed(1)} h (${curr}${fmtMoney(result.costByRole.seo)})`} />
             <ListRow label="DevOps" value={`${result.hoursByRole.devops.toFixed(1)} h (${curr}${fmtMoney(result.costByRole.devops)})`} />
+            {result.customItems.map((it) => (
+              <ListRow
+                key={it.id}
+                label={it.label || T.customItem}
+                value={it.kind === "hours" ? `${it.hours.toFixed(1)} h (${curr}${fmtMoney(it.cost)})` : `${curr}${fmtMoney(it.cost)}`}
+              />
+            ))}
             <div className={cx("mt-3 h-px", isDark ? "bg-neutral-800" : "bg-neutral-200")} />
-            <ListRow label="PM (overhead)" value={`${result.overheads.pmHours.toFixed(1)} h (${curr}${fmtMoney(result.overheads.pmCost)})`} />
-            <ListRow label="QA (overhead)" value={`${result.overheads.qaHours.toFixed(1)} h (${curr}${fmtMoney(result.overheads.qaCost)})`} />
+            <ListRow label={`PM (overhead ${fmtPercent(result.overheads.pmPercent)}%)`} value={`${result.overheads.pmHours.toFixed(1)} h (${curr}${fmtMoney(result.overheads.pmCost)})`} />
+            <ListRow label={`QA (overhead ${fmtPercent(result.overheads.qaPercent)}%)`} value={`${result.overheads.qaHours.toFixed(1)} h (${curr}${fmtMoney(result.overheads.qaCost)})`} />
           </Card>
         </section>
 
+        {/* Confidence bands & post-launch */}
+        <section className="mt-4 sm:mt-6 grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+          <Card title={T.bands} isDark={isDark}>
+            {shownBands.map((b) => (
+              <ListRow key={b} label={b} value={`${simulation.percentiles[b].hours.toFixed(1)} h (${curr}${fmtMoney(simulation.percentiles[b].cost)})`} />
+            ))}
+            <Histogram bins={simulation.histogram} isDark={isDark} />
+            <p className="text-xs text-neutral-500">{T.bandsHint.replace("{n}", String(simulation.iterations))}</p>
+          </Card>
+          <Card
+            title={T.schedule}
+            action={<Button variant="outline" size="xs" onClick={() => setShowTeamModal(true)} isDark={isDark}>{T.team}</Button>}
+            isDark={isDark}
+          >
+            <Gantt schedule={schedule} T={T} isDark={isDark} />
+            <div className={cx("mt-3 h-px", isDark ? "bg-neutral-800" : "bg-neutral-200")} />
+            <ListRow label={`${T.total} (P50)`} value={`${schedule.totalWeeks.p50} ${T.weeks}`} />
+            <ListRow label={`${T.total} (P80)`} value={`${schedule.totalWeeks.p80} ${T.weeks}`} />
+          </Card>
+          {result.maintenance && (
+            <Card title={T.afterLaunch} isDark={isDark}>
+              <ListRow label={T.warranty} value={`${result.maintenance.warrantyWeeks} ${T.weeks}`} />
+              <ListRow
+                label={`${T.retainerMonthly} (${fmtMoney(result.maintenance.retainerMonthlyPercent * 100)}%)`}
+                value={`${result.maintenance.monthly.hours.toFixed(1)} h (${curr}${fmtMoney(result.maintenance.monthly.cost)})`}
+              />
+              <div className={cx("mt-3 h-px", isDark ? "bg-neutral-800" : "bg-neutral-200")} />
+              {result.maintenance.totals.map((t) => (
+                <ListRow
+                  key={t.months}
+                  label={T.monthsTotal.replace("{n}", String(t.months))}
+                  value={`${t.hours.toFixed(1)} h (${curr}${fmtMoney(t.cost)})`}
+                />
+              ))}
+              {result.recurring.items.length > 0 && (
+                <>
+                  <div className={cx("mt-3 h-px", isDark ? "bg-neutral-800" : "bg-neutral-200")} />
+                  {result.recurring.items.map((it) => (
+                    <ListRow
+                      key={`${it.leverId}:${it.value}`}
+                      label={`${tLever(lang, it.leverId).label ?? it.leverId}: ${tOptionLabel(lang, it.leverId, it.value)}`}
+                      value={`${curr}${fmtMoney(it.perYear / 12)}${T.perMonth}`}
+                    />
+                  ))}
+                </>
+              )}
+            </Card>
+          )}
+        </section>
+
+        {/* Cost drivers (sensitivity) */}
+        {sensitivity.levers.length > 0 && (
+          <section className={cx("mt-4 sm:mt-6 rounded-2xl p-5 sm:p-6 border",
+            isDark ? "border-neutral-800 bg-neutral-900/40" : "border-neutral-200 bg-white/80")}>
+            <h3 className="text-base sm:text-lg font-medium">{T.sensitivity}</h3>
+            <p className="mt-1 text-xs text-neutral-500">{T.sensitivityHint}</p>
+            <Tornado sensitivity={sensitivity} lang={lang} isDark={isDark} />
+          </section>
+        )}
+
+        {/* Billing phases & payment milestones */}
+        {result.phases.length > 0 && (
+          <section className="mt-4 sm:mt-6 grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+            <Card title={T.phases} isDark={isDark}>
+              {result.phases.filter((p) => p.hours > 0 || p.cost > 0).map((p) => (
+                <ListRow key={p.id} label={T[`phase_${p.id}`] ?? p.id} value={`${p.hours.toFixed(1)} h (${curr}${fmtMoney(p.cost)})`} />
+              ))}
+            </Card>
+            {result.payments.length > 0 && (
+              <Card title={T.payments} isDark={isDark}>
+                {result.payments.map((m) => (
+                  <ListRow
+                    key={m.id}
+                    label={`${T[`payment_${m.id}`] ?? m.id} (${fmtPercent(m.percent)}%)`}
+                    value={`${curr}${fmtMoney(m.p50)} – ${curr}${fmtMoney(m.p80)}`}
+                  />
+                ))}
+                <p className="mt-2 text-xs text-neutral-500">{T.paymentsHint}</p>
+              </Card>
+            )}
+          </section>
+        )}
+
+        {/* Scenario comparison */}
+        {comparison.columns.length >= 2 && (
+          <section className={cx("mt-4 sm:mt-6 rounded-2xl p-5 sm:p-6 border",
+            isDark ? "border-neutral-800 bg-neutral-900/40" : "border-neutral-200 bg-white/80")}>
+            <h3 className="text-base sm:text-lg font-medium">{T.comparison}</h3>
+            <ComparisonTable comparison={comparison} lang={lang} isDark={isDark} />
+          </section>
+        )}
+
+        {/* How this was calculated */}
+        <details className={cx("mt-4 sm:mt-6 rounded-2xl p-5 sm:p-6 border",
+          isDark ? "border-neutral-800 bg-neutral-900/40" : "border-neutral-200 bg-white/80")}>
+          <summary className="cursor-pointer text-base sm:text-lg font-medium">{T.howCalculated}</summary>
+          <LedgerTable ledger={result.ledger} curr={curr} lang={lang} isDark={isDark} />
+        </details>
+
         {/* Export PDF */}
         <section className="mt-8 sm:mt-10 flex justify-center">
           <Button onClick={() => setShowPdf(true)} isDark={isDark}>Export PDF</Button>
@@ -338,12 +658,27 @@ const initialCountry = useMemo(() => {
           selections={selections}
           result={{
             currencySymbol: result.currencySymbol,
+            currency: result.currency,
+            fx: result.fx,
             p50: result.p50,
             p80: result.p80,
+            vat: result.vat,
+            maintenance: result.maintenance,
+            schedule,
+            ledger: result.ledger,
+            bands: shownBands.map((b) => ({ band: b, ...simulation.percentiles[b] })),
             hoursByRole: result.hoursByRole as any,
             costByRole: result.costByRole as any,
             overheads: result.overheads,
+            staffing: result.staffing,
+            customItems: result.customItems,
+            recurring: result.recurring,
+            phases: result.phases,
+            payments: result.payments,
           }}
+          comparison={comparison.columns.length >= 2 ? comparison : undefined}
+          sensitivity={sensitivity}
+          leadCapture={process.env.NEXT_PUBLIC_LEAD_CAPTURE === "1"}
         />
 
         {/* Assumptions / Exclusions */}
@@ -382,8 +717,94 @@ const initialCountry = useMemo(() => {
           <p className={cx("text-sm mb-3", isDark ? "text-neutral-400" : "text-neutral-600")}>{T.modalRoleHint}</p>
           <RoleEditor
             resultPreHours={result.debug.preAdjustHours}
+            overheadDefaults={result.debug.overheadDefaults}
+            selections={selections}
+            setSelections={setSelections}
+            isDark={isDark}
+            lang={lang}
+          />
+        </Modal>
+      )}
+
+      {/* Team / schedule settings */}
+      {showTeamModal && (
+        <Modal onClose={() => setShowTeamModal(false)} title={T.team} isDark={isDark}>
+          <TeamEditor
+            roles={scheduledRoles(result) as Role[]}
+            weeklyDefault={schedule.weeklyHoursPerPerson}
+            selections={selections}
+            setSelections={setSelections}
+            isDark={isDark}
+            lang={lang}
+          />
+        </Modal>
+      )}
+
+      {/* Undo history */}
+      {showHistory && (
+        <Modal onClose={() => setShowHistory(false)} title={T.history} isDark={isDark}>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onUndo()} disabled={!history.past.length} isDark={isDark}>{T.undo} (Ctrl+Z)</Button>
+            <Button variant="outline" onClick={onRedo} disabled={!history.future.length} isDark={isDark}>{T.redo} (Ctrl+Shift+Z)</Button>
+          </div>
+          {history.past.length + history.future.length === 0 ? (
+            <p className="mt-4 text-sm text-neutral-500">{T.historyEmpty}</p>
+          ) : (
+            <ol className="mt-4 space-y-1 text-sm max-h-80 overflow-y-auto">
+              {[...history.future].reverse().map((e) => (
+                <li key={`f${e.at}`} className="text-neutral-500 line-through">{e.changes.join("; ")}</li>
+              ))}
+              {history.past.map((e, i) => ({ e, i })).reverse().map(({ e, i }) => (
+                <li key={`p${e.at}`} className="flex items-start justify-between gap-3">
+                  <span className="min-w-0 break-words">{e.changes.join("; ")}</span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    <span className="text-xs text-neutral-500">{new Date(e.at).toLocaleTimeString()}</span>
+                    <Button variant="outline" size="xs" onClick={() => onUndo(history.past.length - i)} isDark={isDark}>{T.undo}</Button>
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </Modal>
+      )}
+
+      {/* Named scenarios */}
+      {showScenarioModal && (
+        <Modal onClose={() => setShowScenarioModal(false)} title={T.scenarios} isDark={isDark}>
+          <ScenarioManager
+            comparison={comparison}
+            onSave={saveScenario}
+            onOpen={(sc) => { openScenario(sc); setShowScenarioModal(false); }}
+            onRemove={(id) => setScenarios(list => list.filter(x => x.id !== id))}
+            scenarios={scenarios}
+            isDark={isDark}
+            lang={lang}
+          />
+        </Modal>
+      )}
+
+      {/* Budget-first mode */}
+      {showBudgetModal && (
+        <Modal onClose={() => setShowBudgetModal(false)} title={T.budget} isDark={isDark}>
+          <BudgetFinder
+            config={cfg as any}
+            selections={selections}
+            visibleIds={visibleIds}
+            curr={curr}
+            onApply={(next) => { setPresetId(""); setSelections(next); setShowBudgetModal(false); }}
+            isDark={isDark}
+            lang={lang}
+          />
+        </Modal>
+      )}
+
+      {/* Custom line items */}
+      {showItemsModal && (
+        <Modal onClose={() => setShowItemsModal(false)} title={T.customItems} isDark={isDark}>
+          <CustomItemsEditor
             selections={selections}
             setSelections={setSelections}
+            currencySymbol={result.fx.baseSymbol}
             isDark={isDark}
             lang={lang}
           />
@@ -397,7 +818,7 @@ const initialCountry = useMemo(() => {
           countryCode={country}
           countryName={countryObj.name}
           selections={selections}
-          currencySymbol={result.currencySymbol}
+          currencySymbol={result.fx.baseSymbol}
           onChange={setSelections}
           onClose={() => setShowRateModal(false)}
           isDark={isDark}
@@ -405,21 +826,23 @@ const initialCountry = useMemo(() => {
         />
       )}
 
-      {/* Login (Demo) */}
+      {/* Saved estimates (account) */}
+      {showEstimates && userEmail && (
+        <Modal onClose={() => setShowEstimates(false)} title={T.myEstimates} isDark={isDark}>
+          <SavedEstimates
+            config={cfg as any}
+            selections={selections}
+            onOpen={(row) => { openSaved(row); setShowEstimates(false); }}
+            isDark={isDark}
+            lang={lang}
+          />
+        </Modal>
+      )}
+
+      {/* Login */}
       {showLogin && (
         <Modal onClose={() => setShowLogin(false)} title={T.login} isDark={isDark}>
-          <p className={cx("text-sm", isDark ? "text-neutral-300" : "text-neutral-700")}>
-            This is a demo. Authentication & persistence are planned for a future phase.
-          </p>
-          <div className="mt-4 flex gap-2">
-            <input
-              type="email"
-              placeholder="you@example.com"
-              className={cx("w-full rounded-lg p-2 border",
-                isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300")}
-            />
-            <Button variant="solid" onClick={() => setShowLogin(false)} isDark={isDark}>OK</Button>
-          </div>
+          <LoginPanel userEmail={userEmail} isDark={isDark} lang={lang} />
         </Modal>
       )}
     </main>
@@ -430,12 +853,14 @@ const initialCountry = useMemo(() => {
 
 function RoleEditor({
   resultPreHours,
+  overheadDefaults,
   selections,
   setSelections,
   isDark,
   lang
 }: {
   resultPreHours: Record<string, number>;
+  overheadDefaults: { pm: number; qa: number };
   selections: Selections;
   setSelections: (fn: (s: Selections) => Selections) => void;
   isDark: boolean;
@@ -464,8 +889,40 @@ function RoleEditor({
           );
         })}
       </div>
+      <div className={cx("mt-5 h-px", isDark ? "bg-neutral-800" : "bg-neutral-200")} />
+      <p className={cx("text-sm mt-4 mb-3", isDark ? "text-neutral-400" : "text-neutral-600")}>{STR[lang].overheadHint}</p>
+      <div className="space-y-3">
+        {(["pm", "qa"] as const).map((role) => {
+          const override = selections._overheadOverrides?.[role];
+          return (
+            <div key={role} className="flex items-center justify-between gap-3">
+              <div className="w-32 sm:w-36">{role.toUpperCase()} (%)</div>
+              <div className="text-xs w-24 sm:w-28 text-neutral-500">base: {fmtPercent(overheadDefaults[role])}%</div>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={1}
+                placeholder={fmtPercent(overheadDefaults[role])}
+                value={override == null ? "" : fmtPercent(override)}
+                onChange={(e) => {
+                  const raw = e.target.value;
+                  setSelections(s => {
+                    const next = { ...(s._overheadOverrides ?? {}) };
+                    if (raw === "") delete next[role];
+                    else next[role] = clamp(Number(raw), 0, 100) / 100;
+                    return { ...s, _overheadOverrides: next };
+                  });
+                }}
+                className={cx("w-28 rounded-lg p-2 border",
+                  isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300")}
+              />
+            </div>
+          );
+        })}
+      </div>
       <div className="mt-5 flex justify-between">
-        <Button variant="outline" onClick={() => setSelections(s => ({ ...s, _roleAdjust: {} }))} isDark={isDark}>
+        <Button variant="outline" onClick={() => setSelections(s => ({ ...s, _roleAdjust: {}, _overheadOverrides: {} }))} isDark={isDark}>
           {STR[lang].resetAdjust}
         </Button>
         <Button variant="solid" onClick={() => (document.activeElement as HTMLElement)?.blur()} isDark={isDark}>
@@ -476,6 +933,59 @@ function RoleEditor({
   );
 }
 
+/* ---------- Team editor (schedule) ---------- */
+
+function TeamEditor({
+  roles,
+  weeklyDefault,
+  selections,
+  setSelections,
+  isDark,
+  lang
+}: {
+  roles: Role[];
+  weeklyDefault: number;
+  selections: Selections;
+  setSelections: (fn: (s: Selections) => Selections) => void;
+  isDark: boolean;
+  lang: Lang;
+}) {
+  const T = STR[lang];
+  const setPeople = (role: Role, v: number) =>
+    setSelections(s => ({
+      ...s,
+      _schedule: { ...(s._schedule ?? {}), people: { ...(s._schedule?.people ?? {}), [role]: Math.max(1, Math.round(v)) } }
+    }));
+  return (
+    <>
+      <p className={cx("text-sm mb-3", isDark ? "text-neutral-400" : "text-neutral-600")}>{T.teamHint}</p>
+      <div className="space-y-3">
+        {roles.map((role) => (
+          <div key={role} className="flex items-center justify-between gap-3">
+            <div className="w-32 sm:w-36 capitalize">{role}</div>
+            <Stepper value={Number(selections._schedule?.people?.[role] ?? 1)} onChange={(v) => setPeople(role, v)} isDark={isDark} />
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-sm">{T.weeklyHours}</div>
+          <input
+            type="number"
+            min={1}
+            max={60}
+            className={cx("w-28 rounded-lg p-2 border",
+              isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300")}
+            value={Number(selections._schedule?.weeklyHours ?? weeklyDefault)}
+            onChange={(e) => setSelections(s => ({ ...s, _schedule: { ...(s._schedule ?? {}), weeklyHours: clamp(Number(e.target.value), 1, 60) } }))}
+          />
+        </div>
+      </div>
+      <div className="mt-5 flex justify-between">
+        <Button variant="outline" onClick={() => setSelections(s => ({ ...s, _schedule: {} }))} isDark={isDark}>{T.resetAdjust}</Button>
+      </div>
+    </>
+  );
+}
+
 /* ---------- Rate Editor Modal (with '?' help) ---------- */
 
 function RateEditorModal({
@@ -500,6 +1010,7 @@ function RateEditorModal({
   lang: Lang;
 }) {
   const baseRates = useMemo(() => getCountryBaseRates(config, countryCode), [config, countryCode]);
+  const baseTax = config.countries.find((c: any) => c.code === countryCode)?.tax ?? { vatIncluded: false, vatPercent: 0 };
 
   const effectiveRateFor = (role: Role) =>
     Number(selections._rateOverrides?.[countryCode]?.[role] ?? baseRates[role] ?? 0);
@@ -523,7 +1034,7 @@ function RateEditorModal({
   return (
     <Modal onClose={onClose} title={`Edit Rates — ${countryName}`} isDark={isDark}>
       <div className="space-y-3">
-        {(["design","frontend","backend","pm","qa","devops","seo","content"] as Role[]).map((role) => (
+        {(["design","frontend","backend","fullstack","pm","qa","devops","seo","content"] as Role[]).map((role) => (
           <div key={role} className="flex items-center justify-between gap-3">
             <div className="flex items-center gap-2 w-36">
               <div className="capitalize">{role}</div>
@@ -551,7 +1062,7 @@ function RateEditorModal({
           <label className="flex items-center gap-2 text-sm">
             <input
               type="checkbox"
-              checked={Boolean(selections._taxOverrides?.[countryCode]?.vatIncluded)}
+              checked={Boolean(selections._taxOverrides?.[countryCode]?.vatIncluded ?? baseTax.vatIncluded)}
               onChange={(e) =>
                 onChange((s) => ({
                   ...s,
@@ -562,7 +1073,7 @@ function RateEditorModal({
                 }))
               }
             />
-            VAT included in totals
+            Rates include VAT
           </label>
           <label className="flex items-center gap-2 text-sm">
             VAT %
@@ -570,7 +1081,7 @@ function RateEditorModal({
               type="number"
               className={cx("w-24 rounded-lg p-2 border",
                 isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300")}
-              value={Number(selections._taxOverrides?.[countryCode]?.vatPercent ?? 21)}
+              value={Number(selections._taxOverrides?.[countryCode]?.vatPercent ?? baseTax.vatPercent)}
               onChange={(e) =>
                 onChange((s) => ({
                   ...s,
@@ -593,143 +1104,583 @@ function RateEditorModal({
   );
 }
 
-/* ---------- lever rendering ---------- */
+/* ---------- custom line items ---------- */
 
-function renderLeverCard(
-  lever: Lever,
-  selections: Selections,
-  setSelections: (fn: (s: Selections) => Selections) => void,
-  isDark: boolean,
-  lang?: Lang
-): React.ReactNode {
-  const key = lever.id;
-  const L = tLever(lang as Lang, lever.id);
-  const title = L.label ?? (lever as any).label ?? lever.id;
-  const help = L.help ?? (lever as any).help;
-
-  if (lever.type === "number") {
-    const val = Number(selections[lever.id] ?? (lever as any).default ?? 0);
-    return (
-      <FieldCard key={key} title={title} help={help} isDark={isDark}>
+function CustomItemsEditor({
+  selections,
+  setSelections,
+  currencySymbol,
+  isDark,
+  lang
+}: {
+  selections: Selections;
+  setSelections: (fn: (s: Selections) => Selections) => void;
+  currencySymbol: string;
+  isDark: boolean;
+  lang: Lang;
+}) {
+  const T = STR[lang];
+  const items: CustomItem[] = Array.isArray(selections._customItems) ? selections._customItems : [];
+  const setItems = (fn: (items: CustomItem[]) => CustomItem[]) =>
+    setSelections((s) => ({ ...s, _customItems: fn(Array.isArray(s._customItems) ? s._customItems : []) }));
+  const update = (id: string, patch: Partial<CustomItem>) => setItems((list) => list.map((it) => (it.id === id ? { ...it, ...patch } : it)));
+  const inputCls = cx("rounded-lg p-2 border", isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300");
+  return (
+    <>
+      <p className={cx("text-sm mb-3", isDark ? "text-neutral-400" : "text-neutral-600")}>{T.customItemsHint}</p>
+      <div className="space-y-4">
+        {items.map((it) => (
+          <div key={it.id} className={cx("rounded-xl p-3 border space-y-2", isDark ? "border-neutral-800" : "border-neutral-200")}>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder={T.customItem}
+                value={it.label}
+                onChange={(e) => update(it.id, { label: e.target.value })}
+                className={cx("flex-1 min-w-0", inputCls)}
+              />
+              <Button variant="outline" size="xs" onClick={() => setItems((list) => list.filter((x) => x.id !== it.id))} isDark={isDark}>
+                {T.remove}
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <SelectFancy
+                ariaLabel={T.customItem}
+                value={it.kind}
+                onChange={(v) => update(it.id, { kind: v as CustomItem["kind"] })}
+                options={[{ value: "hours", label: T.itemHours }, { value: "fixed", label: T.itemFixed }]}
+                isDark={isDark}
+                widthClass="w-[150px]"
+              />
+              {it.kind === "hours" ? (
+                <>
+                  <SelectFancy
+                    ariaLabel={T.ledgerRole}
+                    value={it.role ?? "frontend"}
+                    onChange={(v) => update(it.id, { role: v as Role })}
+                    options={OTHER_ROLES.map((r) => ({ value: r, label: r }))}
+                    isDark={isDark}
+                    widthClass="w-[130px]"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    value={Number(it.hours ?? 0)}
+                    onChange={(e) => update(it.id, { hours: Math.max(0, Number(e.target.value) || 0) })}
+                    className={cx("w-24", inputCls)}
+                  />
+                  <span className="text-sm">h</span>
+                </>
+              ) : (
+                <>
+                  <span className="text-sm">{currencySymbol}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={Number(it.amount ?? 0)}
+                    onChange={(e) => update(it.id, { amount: Math.max(0, Number(e.target.value) || 0) })}
+                    className={cx("w-32", inputCls)}
+                  />
+                </>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={Boolean(it.loaded)} onChange={(e) => update(it.id, { loaded: e.target.checked })} />
+              {T.itemLoaded}
+            </label>
+          </div>
+        ))}
+      </div>
+      <div className="mt-4">
+        <Button
+          variant="outline"
+          onClick={() => setItems((list) => [...list, { id: Date.now().toString(36), label: "", kind: "hours", role: "frontend", hours: 0, loaded: true }])}
+          isDark={isDark}
+        >
+          {T.addItem}
+        </Button>
+      </div>
+    </>
+  );
+}
+
+/* ---------- scenarios ---------- */
+
+function ScenarioManager({
+  scenarios,
+  comparison,
+  onSave,
+  onOpen,
+  onRemove,
+  isDark,
+  lang
+}: {
+  scenarios: Scenario[];
+  comparison: ScenarioComparison;
+  onSave: (name: string) => void;
+  onOpen: (sc: Scenario) => void;
+  onRemove: (id: string) => void;
+  isDark: boolean;
+  lang: Lang;
+}) {
+  const T = STR[lang];
+  const [name, setName] = useState("");
+  return (
+    <>
+      <p className={cx("text-sm mb-3", isDark ? "text-neutral-400" : "text-neutral-600")}>{T.scenarioHint}</p>
+      <div className="flex gap-2">
         <input
-          id={lever.id}
-          type="number"
-          min={(lever as any).min}
-          max={(lever as any).max}
-          value={val}
-          onChange={(e) =>
-            setSelections((s) => ({
-              ...s,
-              [lever.id]: clamp(Number(e.target.value), (lever as any).min, (lever as any).max),
-            }))
-          }
-          className={cx(
-            "w-full rounded-lg p-2 border",
-            isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300"
-          )}
+          type="text"
+          placeholder={T.scenarioName}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={cx("flex-1 min-w-0 rounded-lg p-2 border",
+            isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300")}
         />
-      </FieldCard>
-    );
-  }
+        <Button onClick={() => { onSave(name.trim()); setName(""); }} isDark={isDark}>{T.saveScenario}</Button>
+      </div>
+      <div className="mt-4 space-y-2">
+        {scenarios.map((sc, i) => {
+          const col = comparison.columns[i];
+          return (
+            <div key={sc.id} className="flex items-center justify-between gap-3">
+              <div className="min-w-0 truncate">{sc.name}</div>
+              <div className="text-sm text-neutral-500 whitespace-nowrap">
+                {col ? `${col.country} · ${col.result.currencySymbol}${fmtMoney(col.result.p50.cost)}` : ""}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="xs" onClick={() => onOpen(sc)} isDark={isDark}>{T.openScenario}</Button>
+                <Button variant="outline" size="xs" onClick={() => onRemove(sc.id)} isDark={isDark}>{T.remove}</Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
 
-  if (lever.type === "select") {
-    const val = String(selections[lever.id] ?? (lever as any).default ?? (lever.options[0]?.value ?? ""));
-    const options = lever.options.map((o) => ({
-      value: o.value,
-      label: tOptionLabel(lang as Lang, lever.id, o.value, (o as any).label),
-    }));
+/* ---------- accounts ---------- */
+
+function LoginPanel({ userEmail, isDark, lang }: { userEmail: string | null; isDark: boolean; lang: Lang }) {
+  const T = STR[lang];
+  const [email, setEmail] = useState("");
+  const [status, setStatus] = useState("");
+  const [busy, setBusy] = useState(false);
+  const hintCls = cx("text-sm", isDark ? "text-neutral-300" : "text-neutral-700");
+  if (!isSupabaseConfigured()) return <p className={hintCls}>{T.accountsDisabled}</p>;
+
+  if (userEmail) {
     return (
-      <FieldCard key={key} title={title} help={help} isDark={isDark}>
-        <SelectFancy
-          ariaLabel={title}
-          value={val}
-          onChange={(v) => setSelections((s) => ({ ...s, [lever.id]: v }))}
-          options={options}
-          isDark={isDark}
-        />
-      </FieldCard>
+      <div className="flex items-center justify-between gap-3">
+        <p className={cx(hintCls, "min-w-0 break-all")}>{T.signedInAs.replace("{email}", userEmail)}</p>
+        <Button variant="outline" onClick={() => createClientBrowser().auth.signOut()} isDark={isDark}>{T.signOut}</Button>
+      </div>
     );
   }
 
-  if (lever.type === "multiselect") {
-    const vals: string[] = Array.isArray(selections[lever.id]) ? selections[lever.id] : [];
-    const maxSelected = (lever as any).maxSelected as number | undefined;
-    return (
-      <FieldCard key={key} title={title} help={help} isDark={isDark}>
-        <div className="mt-1 flex flex-wrap gap-2">
-          {lever.options.map((o) => {
-            const active = vals.includes(o.value);
-            const label = tOptionLabel(lang as Lang, lever.id, o.value, (o as any).label);
-            return (
-              <button
-                key={o.value}
-                type="button"
-                onClick={() => {
-                  setSelections((s) => {
-                    const curr: string[] = Array.isArray(s[lever.id]) ? s[lever.id] : [];
-                    const exists = curr.includes(o.value);
-                    let next = exists ? curr.filter((x) => x !== o.value) : [...curr, o.value];
-                    if (maxSelected && next.length > maxSelected) next = next.slice(0, maxSelected);
-                    return { ...s, [lever.id]: next };
-                  });
-                }}
-                className={cx(
-                  "px-3 py-1 rounded-lg border transition",
-                  active
-                    ? (isDark ? "border-neutral-100 bg-neutral-100 text-neutral-900" : "border-neutral-900 bg-neutral-900 text-white")
-                    : (isDark ? "border-neutral-700 bg-neutral-900 text-neutral-200 hover:border-neutral-500" : "border-neutral-300 bg-white text-neutral-800 hover:border-neutral-500")
-                )}
+  const sendLink = async () => {
+    if (!email.trim()) return;
+    setBusy(true);
+    // the link comes back through /api/auth/callback, which sets the session cookie and returns here
+    const next = `/${lang}`;
+    const { error } = await createClientBrowser().auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: `${window.location.origin}/api/auth/callback?next=${encodeURIComponent(next)}` },
+    });
+    setBusy(false);
+    setStatus(error ? T.signInFailed.replace("{error}", error.message) : T.linkSent);
+  };
+
+  return (
+    <>
+      <p className={hintCls}>{T.signInHint}</p>
+      <form className="mt-4 flex gap-2" onSubmit={(e) => { e.preventDefault(); sendLink(); }}>
+        <input
+          type="email"
+          required
+          placeholder={T.emailAddress}
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className={cx("w-full rounded-lg p-2 border",
+            isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300")}
+        />
+        <Button variant="solid" disabled={busy} isDark={isDark}>{T.sendLink}</Button>
+      </form>
+      {status && <p className="mt-3 text-sm text-neutral-500" role="status">{status}</p>}
+    </>
+  );
+}
+
+function SavedEstimates({
+  config,
+  selections,
+  onOpen,
+  isDark,
+  lang
+}: {
+  config: any;
+  selections: Selections;
+  onOpen: (row: SavedEstimate) => void;
+  isDark: boolean;
+  lang: Lang;
+}) {
+  const T = STR[lang];
+  const db = createClientBrowser();
+  const [rows, setRows] = useState<SavedEstimate[] | null>(null);
+  const [name, setName] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState("");
+  const inputCls = cx("flex-1 min-w-0 rounded-lg p-2 border", isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300");
+
+  // every action reloads the list, so it also picks up changes made in other tabs
+  const run = async (action?: () => Promise<unknown>) => {
+    try {
+      if (action) await action();
+      setRows(await listEstimates(db));
+      setError("");
+    } catch (e) {
+      setError(T.estimatesFailed.replace("{error}", e instanceof Error ? e.message : String(e)));
+    }
+  };
+  useEffect(() => { run(); }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const save = () => {
+    const label = name.trim() || `${T.myEstimates} ${(rows?.length ?? 0) + 1}`;
+    setName("");
+    run(() => saveEstimate(db, toSavedEstimate(config, label, lang, selections)));
+  };
+  const rename = () => {
+    if (!editing) return;
+    const { id, name: next } = editing;
+    setEditing(null);
+    if (next.trim()) run(() => renameEstimate(db, id, next.trim()));
+  };
+
+  return (
+    <>
+      <p className={cx("text-sm mb-3", isDark ? "text-neutral-400" : "text-neutral-600")}>{T.myEstimatesHint}</p>
+      <div className="flex gap-2">
+        <input type="text" placeholder={T.estimateName} value={name} onChange={(e) => setName(e.target.value)} className={inputCls} />
+        <Button onClick={save} isDark={isDark}>{T.saveEstimate}</Button>
+      </div>
+      {error && <p className="mt-3 text-sm text-red-500" role="alert">{error}</p>}
+      <div className="mt-4 space-y-2 max-h-96 overflow-y-auto">
+        {rows && !rows.length && <p className="text-sm text-neutral-500">{T.noEstimates}</p>}
+        {rows?.map((row) => (
+          <div key={row.id} className="flex flex-wrap items-center justify-between gap-3">
+            {editing?.id === row.id ? (
+              <form className="flex flex-1 gap-2" onSubmit={(e) => { e.preventDefault(); rename(); }}>
+                <input
+                  autoFocus
+                  type="text"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ id: row.id, name: e.target.value })}
+                  className={inputCls}
+                />
+                <Button size="xs" isDark={isDark}>{T.rename}</Button>
+              </form>
+            ) : (
+              <div className="min-w-0 flex-1">
+                <div className="truncate">{row.name}</div>
+                <div className="text-xs text-neutral-500">
+                  {new Date(row.updated_at).toLocaleDateString()}
+                  {row.config_version !== config.version ? ` · ${T.olderConfig}` : ""}
+                </div>
+              </div>
+            )}
+            <div className="text-sm text-neutral-500 whitespace-nowrap">
+              {`${row.country} · ${row.currency} ${fmtMoney(row.p50_cost)}–${fmtMoney(row.p80_cost)}`}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="xs" onClick={() => onOpen(row)} isDark={isDark}>{T.reopen}</Button>
+              <Button variant="outline" size="xs" onClick={() => setEditing({ id: row.id, name: row.name })} isDark={isDark}>{T.rename}</Button>
+              <Button variant="outline" size="xs" onClick={() => run(() => duplicateEstimate(db, row, `${row.name} ${T.copySuffix}`))} isDark={isDark}>{T.duplicate}</Button>
+              <Button
+                variant="outline"
+                size="xs"
+                onClick={() => { if (window.confirm(T.confirmDelete.replace("{name}", row.name))) run(() => deleteEstimate(db, row.id)); }}
+                isDark={isDark}
               >
-                {label}
-              </button>
-            );
-          })}
+                {T.remove}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
+
+function BudgetFinder({
+  config,
+  selections,
+  visibleIds,
+  curr,
+  onApply,
+  isDark,
+  lang
+}: {
+  config: any;
+  selections: Selections;
+  visibleIds: Set<string>;
+  curr: string;
+  onApply: (next: Selections) => void;
+  isDark: boolean;
+  lang: Lang;
+}) {
+  const T = STR[lang];
+  const [target, setTarget] = useState("");
+  const [metric, setMetric] = useState<BudgetMetric>("p50");
+  const [locked, setLocked] = useState<string[]>([]);
+  const [found, setFound] = useState<BudgetResult | null>(null);
+  const [searching, setSearching] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  useEffect(() => () => workerRef.current?.terminate(), []);
+  const levers = (config.levers as Lever[]).filter((l) => visibleIds.has(l.id));
+  const inputCls = cx("rounded-lg p-2 border", isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300");
+  const search = () => {
+    const budget = Number(target);
+    if (!(Number.isFinite(budget) && budget > 0)) return;
+    // the search takes a second or more, so it runs in a worker; a new search replaces one still running
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL("../../lib/budget.worker.ts", import.meta.url));
+    workerRef.current = worker;
+    const done = (next: BudgetResult | null) => {
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      setFound(next);
+      setSearching(false);
+    };
+    worker.onmessage = (e: MessageEvent<BudgetResult>) => done(e.data);
+    worker.onerror = () => done(null);
+    setSearching(true);
+    worker.postMessage({ config, selections, budget, opts: { metric, locked } } satisfies BudgetRequest);
+  };
+  return (
+    <>
+      <p className={cx("text-sm mb-3", isDark ? "text-neutral-400" : "text-neutral-600")}>{T.budgetHint}</p>
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="number"
+          min={0}
+          placeholder={`${curr} ${T.budgetTarget}`}
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className={cx("flex-1 min-w-0", inputCls)}
+        />
+        <select value={metric} onChange={(e) => setMetric(e.target.value as BudgetMetric)} className={inputCls}>
+          <option value="p50">{T.p50}</option>
+          <option value="p80">{T.p80}</option>
+        </select>
+        <Button onClick={search} disabled={searching} isDark={isDark}>{searching ? T.searching : T.findScope}</Button>
+      </div>
+
+      <details className="mt-3 text-sm">
+        <summary className="cursor-pointer text-neutral-500">{T.lockedLevers}{locked.length ? ` (${locked.length})` : ""}</summary>
+        <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-1 max-h-48 overflow-y-auto">
+          {levers.map((l) => (
+            <label key={l.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={locked.includes(l.id)}
+                onChange={(e) => setLocked((list) => (e.target.checked ? [...list, l.id] : list.filter((x) => x !== l.id)))}
+              />
+              <span className="truncate">{tLever(lang, l.id).label ?? l.label}</span>
+            </label>
+          ))}
         </div>
-        {maxSelected && (<p className="w-full mt-2 text-xs text-neutral-500">Max {maxSelected} selections.</p>)}
-      </FieldCard>
-    );
-  }
+      </details>
+
+      {found && (
+        <div className="mt-4 space-y-3">
+          {found.current.fits ? (
+            <p className="text-sm">{T.budgetFits}</p>
+          ) : found.suggestions.length === 0 ? (
+            <p className="text-sm">{T.budgetUnreachable.replace("{amount}", `${curr}${fmtMoney(found.lowestFound)}`)}</p>
+          ) : (
+            found.suggestions.map((s, i) => (
+              <div key={i} className={cx("rounded-xl border p-3", isDark ? "border-neutral-800" : "border-neutral-200")}>
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm font-medium">
+                    P50 {curr}{fmtMoney(s.p50)} · P80 {curr}{fmtMoney(s.p80)}
+                  </span>
+                  <Button size="xs" onClick={() => onApply(s.selections)} isDark={isDark}>{T.applySuggestion}</Button>
+                </div>
+                <ul className="mt-2 space-y-0.5 text-sm text-neutral-500">
+                  {s.changes.map((c) => (
+                    <li key={c.leverId}>
+                      {tLever(lang, c.leverId).label ?? c.leverId}: {comparisonValue(lang, c.leverId, c.from as any)} → {comparisonValue(lang, c.leverId, c.to as any)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </>
+  );
+}
 
-  return null;
+function comparisonValue(lang: Lang, leverId: string, v: string | number | string[] | undefined) {
+  if (v == null) return "—";
+  if (Array.isArray(v)) return v.length ? v.map((x) => tOptionLabel(lang, leverId, x)).join(", ") : "—";
+  return typeof v === "number" ? String(v) : tOptionLabel(lang, leverId, v);
 }
 
-/* ---------- UI atoms ---------- */
+function ComparisonTable({ comparison, lang, isDark }: { comparison: ScenarioComparison; lang: Lang; isDark: boolean }) {
+  const T = STR[lang];
+  const { columns } = comparison;
+  const roles = (["design", "frontend", "backend", "fullstack", "content", "seo", "devops", "pm", "qa"] as Role[])
+    .filter((r) => columns.some((c) => c.result.hoursByRole[r] > 0));
+  const money = (c: (typeof columns)[number], n: number) => `${c.result.currencySymbol}${fmtMoney(n)}`;
+  const rows: Array<{ label: string; cells: string[]; strong?: boolean }> = [
+    { label: T.country, cells: columns.map((c) => c.country) },
+    { label: `${T.p50}`, cells: columns.map((c) => `${c.result.p50.hours.toFixed(1)} h · ${money(c, c.result.p50.cost)}`), strong: true },
+    { label: `${T.p80}`, cells: columns.map((c) => `${c.result.p80.hours.toFixed(1)} h · ${money(c, c.result.p80.cost)}`), strong: true },
+    ...roles.map((r) => ({
+      label: r,
+      cells: columns.map((c) => `${c.result.hoursByRole[r].toFixed(1)} h · ${money(c, c.result.costByRole[r])}`)
+    })),
+  ];
+  const border = cx("border-t", isDark ? "border-neutral-800" : "border-neutral-200");
+  return (
+    <div className="mt-4 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="text-left text-neutral-400">
+          <tr>
+            <th className="py-1 pr-3 font-normal" />
+            {columns.map((c) => <th key={c.id} className="py-1 pr-3 font-medium text-right">{c.name}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className={border}>
+              <td className="py-1 pr-3 capitalize">{row.label}</td>
+              {row.cells.map((cell, i) => (
+                <td key={i} className={cx("py-1 pr-3 text-right whitespace-nowrap", row.strong && "font-medium")}>{cell}</td>
+              ))}
+            </tr>
+          ))}
+          {comparison.differences.length > 0 && (
+            <tr className={border}>
+              <td colSpan={columns.length + 1} className="pt-4 pb-1 text-neutral-400">{T.differences}</td>
+            </tr>
+          )}
+          {comparison.differences.map((d) => (
+            <tr key={d.leverId} className={border}>
+              <td className="py-1 pr-3">{tLever(lang, d.leverId).label ?? d.leverId}</td>
+              {d.values.map((v, i) => <td key={i} className="py-1 pr-3 text-right">{comparisonValue(lang, d.leverId, v)}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
 
-function FieldCard({ title, help, children, isDark }: { title: string; help?: string; children: React.ReactNode; isDark: boolean }) {
-  const [open, setOpen] = useState(false);
+/* ---------- sensitivity ---------- */
+
+function changeLabel(lang: Lang, leverId: string, c: SensitivityChange) {
+  if (c.toggled) return `${c.toggled.added ? "+" : "−"}${tOptionLabel(lang, leverId, c.toggled.option)}`;
+  return typeof c.value === "number" ? String(c.value) : tOptionLabel(lang, leverId, String(c.value));
+}
+
+/** Savings grow to the left of the centre line, increases to the right (P50 cost). */
+function Tornado({ sensitivity, lang, isDark }: { sensitivity: SensitivityResult; lang: Lang; isDark: boolean }) {
+  const curr = sensitivity.currencySymbol;
+  const max = Math.max(1, ...sensitivity.levers.map((l) => Math.max(-(l.low?.p50Delta ?? 0), l.high?.p50Delta ?? 0)));
+  const delta = (c: SensitivityChange) => `${c.p50Delta < 0 ? "−" : "+"}${curr}${fmtMoney(Math.abs(c.p50Delta))}`;
   return (
-    <div className={cx("relative rounded-xl p-4 sm:p-5 border", isDark ? "border-neutral-800" : "border-neutral-200")}>
-      <div className="flex items-start justify-between">
-        <label className={cx("text-sm", isDark ? "text-neutral-300" : "text-neutral-700")}>{title}</label>
-        {help ? <HelpDot text={help} onClick={() => setOpen(!open)} open={open} isDark={isDark} /> : null}
-      </div>
-      {help && open && <Popover title={title} text={help} onClose={() => setOpen(false)} isDark={isDark} />}
-      <div className="mt-3">{children}</div>
+    <div className="mt-4 space-y-3">
+      {sensitivity.levers.map((l) => (
+        <div key={l.leverId} className="grid grid-cols-[minmax(0,9rem)_1fr] sm:grid-cols-[minmax(0,12rem)_1fr] items-center gap-3 text-sm">
+          <span className="truncate text-neutral-400" title={tLever(lang, l.leverId).label ?? l.leverId}>
+            {tLever(lang, l.leverId).label ?? l.leverId}
+          </span>
+          <div>
+            <div className="grid grid-cols-2">
+              <div className={cx("flex justify-end border-r", isDark ? "border-neutral-600" : "border-neutral-300")}>
+                {l.low && (
+                  <div
+                    title={`${changeLabel(lang, l.leverId, l.low)}: ${delta(l.low)}`}
+                    className={cx("h-3 rounded-l-sm", isDark ? "bg-neutral-500" : "bg-neutral-300")}
+                    style={{ width: `${(-l.low.p50Delta / max) * 100}%` }}
+                  />
+                )}
+              </div>
+              <div className="flex">
+                {l.high && (
+                  <div
+                    title={`${changeLabel(lang, l.leverId, l.high)}: ${delta(l.high)}`}
+                    className={cx("h-3 rounded-r-sm", isDark ? "bg-neutral-300" : "bg-neutral-700")}
+                    style={{ width: `${(l.high.p50Delta / max) * 100}%` }}
+                  />
+                )}
+              </div>
+            </div>
+            <div className="mt-0.5 grid grid-cols-2 gap-2 text-xs text-neutral-500">
+              <span className="truncate text-right">{l.low ? `${changeLabel(lang, l.leverId, l.low)} ${delta(l.low)}` : ""}</span>
+              <span className="truncate">{l.high ? `${changeLabel(lang, l.leverId, l.high)} ${delta(l.high)}` : ""}</span>
+            </div>
+          </div>
+        </div>
+      ))}
     </div>
   );
 }
 
-function HelpDot({ text, onClick, open, isDark }: { text: string; onClick?: () => void; open?: boolean; isDark: boolean }) {
-  const [localOpen, setLocalOpen] = useState(false);
-  const toggler = onClick ?? (() => setLocalOpen(!localOpen));
-  const state = open ?? localOpen;
+/* ---------- calculation ledger ---------- */
+
+function ledgerSourceLabel(lang: Lang, entry: LedgerEntry) {
+  const T = STR[lang];
+  if (entry.source === "_roleAdjust") return T.manualAdjust;
+  if (entry.source === "_overhead") return `${entry.role.toUpperCase()} (${T.overhead})`;
+  const lever = tLever(lang, entry.source).label ?? entry.source;
+  if (entry.value == null) return lever;
+  const value = typeof entry.value === "number" ? String(entry.value) : tOptionLabel(lang, entry.source, entry.value);
+  return entry.note ? `${lever}: ${value} (${entry.note})` : `${lever}: ${value}`;
+}
+
+function LedgerTable({ ledger, curr, lang, isDark }: { ledger: LedgerEntry[]; curr: string; lang: Lang; isDark: boolean }) {
+  const T = STR[lang];
   return (
-    <button
-      type="button"
-      onClick={(e) => { e.stopPropagation(); toggler(); }}
-      className={cx(
-        "ml-2 inline-flex h-5 w-5 items-center justify-center rounded-full border text-xs",
-        isDark ? cx("border-neutral-600 text-neutral-300 hover:bg-neutral-800", state && "bg-neutral-800")
-               : cx("border-neutral-400 text-neutral-700 hover:bg-neutral-100", state && "bg-neutral-100")
-      )}
-      aria-label="More info"
-      title="More info"
-    >
-      <span className="leading-none">?</span>
-    </button>
+    <div className="mt-4 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="text-left text-neutral-400">
+          <tr>
+            <th className="py-1 pr-3 font-normal">{T.ledgerSource}</th>
+            <th className="py-1 pr-3 font-normal">{T.ledgerRole}</th>
+            <th className="py-1 pr-3 font-normal text-right">{T.ledgerBase}</th>
+            <th className="py-1 pr-3 font-normal">{T.ledgerMultipliers}</th>
+            <th className="py-1 pr-3 font-normal text-right">{T.ledgerHours}</th>
+            <th className="py-1 font-normal text-right">{T.ledgerCost}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ledger.map((e, i) => (
+            <tr key={i} className={cx("border-t", isDark ? "border-neutral-800" : "border-neutral-200")}>
+              <td className="py-1 pr-3">{ledgerSourceLabel(lang, e)}</td>
+              <td className="py-1 pr-3 capitalize">{e.billedAs === e.role ? e.role : `${e.role} → ${e.billedAs}`}</td>
+              <td className="py-1 pr-3 text-right">{e.baseHours.toFixed(1)}</td>
+              <td className="py-1 pr-3 text-neutral-400">
+                {e.multipliers.map((m) => `×${m.factor} (${tLever(lang, m.leverId).label ?? m.leverId})`).join(", ") || "—"}
+              </td>
+              <td className="py-1 pr-3 text-right font-medium">{e.hours.toFixed(1)}</td>
+              <td className="py-1 text-right">{curr}{fmtMoney(e.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
   );
 }
 
+/* ---------- lever rendering ---------- */
+
+/* ---------- UI atoms ---------- */
+
 function RateHelp({ text, isDark }: { text: string; isDark: boolean }) {
   const [open, setOpen] = useState(false);
   return (
@@ -750,21 +1701,6 @@ function RateHelp({ text, isDark }: { text: string; isDark: boolean }) {
   );
 }
 
-function Popover({ title, text, onClose, isDark }: { title: string; text: string; onClose: () => void; isDark: boolean }) {
-  return (
-    <div className={cx(
-      "absolute right-3 top-10 z-10 w-72 rounded-lg p-3 text-sm shadow-xl border",
-      isDark ? "bg-neutral-900 border-neutral-700 text-neutral-200" : "bg-white border-neutral-200 text-neutral-800"
-    )}>
-      <div className="font-medium mb-1">{title}</div>
-      <div>{text}</div>
-      <div className="mt-2 text-right">
-        <button className={cx("text-xs", isDark ? "text-neutral-400 hover:text-neutral-200" : "text-neutral-600 hover:text-neutral-900")} onClick={onClose}>Close</button>
-      </div>
-    </div>
-  );
-}
-
 function Card({ title, action, children, isDark }: { title: string; action?: React.ReactNode; children: React.ReactNode; isDark: boolean }) {
   return (
     <div className={cx("rounded-2xl p-5 sm:p-6 border",
@@ -786,59 +1722,90 @@ function BigNumber({ label, value }: { label: string; value: string }) {
     </div>
   );
 }
-function ListRow({ label, value }: { label: string; value: string }) {
+function VatRows({ band, vatPercent, curr, T, isDark }: {
+  band: { net: number; vat: number; gross: number }; vatPercent: number; curr: string; T: Record<string, string>; isDark: boolean;
+}) {
   return (
-    <div className="flex justify-between text-sm">
-      <span className="text-neutral-400">{label}</span>
-      <span className="font-medium">{value}</span>
-    </div>
+    <>
+      <div className={cx("mt-3 h-px", isDark ? "bg-neutral-800" : "bg-neutral-200")} />
+      <ListRow label={T.net} value={`${curr}${fmtMoney(band.net)}`} />
+      <ListRow label={`${T.vat} (${vatPercent}%)`} value={`${curr}${fmtMoney(band.vat)}`} />
+      <ListRow label={T.gross} value={`${curr}${fmtMoney(band.gross)}`} />
+    </>
   );
 }
-
-/* Improved dropdown */
-function SelectFancy({
-  value, onChange, options, ariaLabel, isDark, widthClass
-}: {
-  value: string; onChange: (v: string) => void; options: { value: string; label: string }[]; ariaLabel?: string; isDark: boolean; widthClass?: string;
+function TcoRows({ recurring, band, curr, T, isDark }: {
+  recurring: RecurringCosts; band: "p50" | "p80"; curr: string; T: Record<string, string>; isDark: boolean;
 }) {
+  if (recurring.perYear <= 0) return null;
   return (
-    <div className={cx("relative", widthClass ?? "w-[200px]")}>
-      <select
-        aria-label={ariaLabel}
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        className={cx(
-          "w-full appearance-none rounded-lg pl-3 pr-8 py-2 text-sm border focus:outline-none focus:ring-2",
-          isDark
-            ? "bg-neutral-900 border-neutral-700 focus:ring-neutral-600"
-            : "bg-white border-neutral-300 focus:ring-neutral-400"
-        )}
-      >
-        {options.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
-      </select>
-      {/* Chevron */}
-      <div className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2">
-        <svg width="16" height="16" viewBox="0 0 20 20" fill="none" aria-hidden="true">
-          <path d="M6 8l4 4 4-4" stroke="currentColor" strokeWidth="1.6" strokeLinecap="round" strokeLinejoin="round" />
-        </svg>
-      </div>
+    <>
+      <div className={cx("mt-3 h-px", isDark ? "bg-neutral-800" : "bg-neutral-200")} />
+      <ListRow label={T.recurringMonthly} value={`${curr}${fmtMoney(recurring.monthly)}${T.perMonth}`} />
+      {recurring.tco.map((t) => (
+        <ListRow key={t.years} label={T.tcoYears.replace("{n}", String(t.years))} value={`${curr}${fmtMoney(t[band])}`} />
+      ))}
+    </>
+  );
+}
+function Gantt({ schedule, T, isDark }: { schedule: Schedule; T: Record<string, string>; isDark: boolean }) {
+  const total = Math.max(schedule.totalWeeks.p50, 0.1);
+  return (
+    <div className="space-y-2">
+      {schedule.phases.map((ph) => (
+        <div key={ph.id}>
+          <div className="flex justify-between text-xs text-neutral-400">
+            <span>{T[`phase_${ph.id}`] ?? ph.id}</span>
+            <span>{ph.weeks} {T.weeks}</span>
+          </div>
+          <div className={cx("relative h-3 rounded", isDark ? "bg-neutral-800" : "bg-neutral-100")}>
+            <div
+              className={cx("absolute h-3 rounded", isDark ? "bg-neutral-300" : "bg-neutral-700")}
+              style={{ left: `${(ph.startWeek / total) * 100}%`, width: `${(ph.weeks / total) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+function Histogram({ bins, isDark }: { bins: Array<{ from: number; to: number; count: number }>; isDark: boolean }) {
+  const max = Math.max(1, ...bins.map((b) => b.count));
+  return (
+    <div className="mt-3 flex h-16 items-end gap-px" aria-hidden="true">
+      {bins.map((b, i) => (
+        <div
+          key={i}
+          title={`${fmtMoney(b.from)}–${fmtMoney(b.to)}: ${b.count}`}
+          className={cx("flex-1 rounded-t-sm", isDark ? "bg-neutral-600" : "bg-neutral-400")}
+          style={{ height: `${(b.count / max) * 100}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+function ListRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-neutral-400">{label}</span>
+      <span className="font-medium">{value}</span>
     </div>
   );
 }
 
 function Button({
-  children, onClick, variant = "outline", size = "sm", isDark
+  children, onClick, variant = "outline", size = "sm", disabled, isDark
 }: {
-  children: React.ReactNode; onClick?: () => void; variant?: "solid" | "outline"; size?: "xs" | "sm"; isDark: boolean;
+  children: React.ReactNode; onClick?: () => void; variant?: "solid" | "outline"; size?: "xs" | "sm"; disabled?: boolean; isDark: boolean;
 }) {
   const pad = size === "xs" ? "px-2 py-1 text-xs" : "px-3 py-2 text-sm";
-  const base = "rounded-lg border transition";
+  const base = "rounded-lg border transition disabled:opacity-40 disabled:pointer-events-none";
   const cls = variant === "solid"
     ? (isDark ? "bg-neutral-100 text-neutral-900 border-neutral-100 hover:opacity-90"
               : "bg-neutral-900 text-white border-neutral-900 hover:opacity-90")
     : (isDark ? "border-neutral-700 hover:bg-neutral-900"
               : "border-neutral-300 hover:bg-neutral-100");
-  return <button onClick={onClick} className={cx(base, pad, cls)}>{children}</button>;
+  return <button onClick={onClick} disabled={disabled} className={cx(base, pad, cls)}>{children}</button>;
 }
 
 function Modal({ title, children, onClose, isDark }: { title: string; children: React.ReactNode; onClose: () => void; isDark: boolean }) {
@@ -0,0 +1,22 @@
+// GET /api/auth/callback — target of the sign-in email link: trades the one-time code for a session cookie.
+
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { createClientServer, isSupabaseConfigured } from "@/lib/supabase";
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const code = url.searchParams.get("code");
+  // only same-site paths, so the link cannot be turned into an open redirect
+  const nextParam = url.searchParams.get("next") ?? "/";
+  const next = nextParam.startsWith("/") && !nextParam.startsWith("//") ? nextParam : "/";
+
+  if (!isSupabaseConfigured()) return NextResponse.json({ error: "auth_not_configured" }, { status: 503 });
+  if (!code) return NextResponse.redirect(new URL(next, url.origin));
+
+  const supabase = createClientServer(await cookies());
+  const { error } = await supabase.auth.exchangeCodeForSession(code);
+  const target = new URL(next, url.origin);
+  if (error) target.searchParams.set("auth_error", error.code ?? "exchange_failed");
+  return NextResponse.redirect(target);
+}
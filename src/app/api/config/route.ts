@@ -0,0 +1,46 @@
+// GET /api/config?lang=nl — localized lever catalog for front ends that render the questionnaire themselves.
+
+import { NextResponse } from "next/server";
+import factorsJson from "@/config/factors.json";
+import countriesJson from "@/config/countries.json";
+import currenciesJson from "@/config/currencies.json";
+import type { Config } from "@/lib/estimate";
+import { isLang, DEFAULT_LANG, type Lang } from "@/lib/i18n";
+import { localizeCatalog } from "@/lib/localize";
+
+const cfg = { ...(factorsJson as any), ...(countriesJson as any), ...(currenciesJson as any) } as Config;
+
+export async function GET(req: Request) {
+  const lang = new URL(req.url).searchParams.get("lang") ?? DEFAULT_LANG;
+  if (!isLang(lang)) {
+    return NextResponse.json(
+      { error: "invalid_request", issues: [{ level: "error", path: "lang", message: `unsupported language "${lang}"` }] },
+      { status: 400 }
+    );
+  }
+
+  const { body, etag } = await catalogFor(lang);
+  const headers = { ETag: etag, "Cache-Control": "public, max-age=300" };
+  if (req.headers.get("if-none-match") === etag) return new NextResponse(null, { status: 304, headers });
+  return new NextResponse(body, { headers: { ...headers, "Content-Type": "application/json" } });
+}
+
+const catalogs = new Map<string, Promise<{ body: string; etag: string }>>();
+
+/**
+ * The serialized catalog and a hash of it as the ETag: rates, options and translations can change without a
+ * `Config.version` bump, and a stale 304 would keep old figures in clients' caches.
+ */
+function catalogFor(lang: Lang) {
+  let entry = catalogs.get(lang);
+  if (!entry) {
+    entry = (async () => {
+      const body = JSON.stringify(localizeCatalog(cfg, lang));
+      const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+      const hex = Array.from(new Uint8Array(hash), (b) => b.toString(16).padStart(2, "0")).join("");
+      return { body, etag: `"${hex.slice(0, 32)}"` };
+    })();
+    catalogs.set(lang, entry);
+  }
+  return entry;
+}
@@ -0,0 +1,68 @@
+// POST /api/estimate — estimate for a set of selections (or a preset) with localized labels.
+
+import { NextResponse } from "next/server";
+import factorsJson from "@/config/factors.json";
+import countriesJson from "@/config/countries.json";
+import currenciesJson from "@/config/currencies.json";
+import { applyPreset, computeEstimate, type Config, type Selections } from "@/lib/estimate";
+import { isLang, DEFAULT_LANG } from "@/lib/i18n";
+import { localizeEstimate, localizeInputs } from "@/lib/localize";
+import { validateSelections, type ValidationIssue } from "@/lib/validate";
+
+const cfg = { ...(factorsJson as any), ...(countriesJson as any), ...(currenciesJson as any) } as Config;
+
+/** Request body; `selections` override the preset's values when both are given */
+type EstimateRequest = {
+  selections?: Selections;
+  presetId?: string;
+  lang?: string;
+  /** Shorthand for `selections._country` */
+  country?: string;
+};
+
+function invalid(issues: ValidationIssue[]) {
+  return NextResponse.json({ error: "invalid_request", issues }, { status: 400 });
+}
+
+export async function POST(req: Request) {
+  let body: EstimateRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return invalid([{ level: "error", path: "", message: "body must be valid JSON" }]);
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return invalid([{ level: "error", path: "", message: "body must be a JSON object" }]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const lang = body.lang ?? DEFAULT_LANG;
+  if (!isLang(lang)) issues.push({ level: "error", path: "lang", message: `unsupported language "${body.lang}"` });
+  if (body.presetId != null && !cfg.presets?.some((p) => p.id === body.presetId)) {
+    issues.push({ level: "error", path: "presetId", message: `unknown preset "${body.presetId}"` });
+  }
+  if (body.country != null && !cfg.countries.some((c) => c.code === body.country)) {
+    issues.push({ level: "error", path: "country", message: `unknown country "${body.country}"` });
+  }
+  if (body.selections != null) {
+    for (const issue of validateSelections(cfg, body.selections)) {
+      issues.push({ ...issue, path: issue.path ? `selections.${issue.path}` : "selections" });
+    }
+  }
+  if (issues.some((i) => i.level === "error") || !isLang(lang)) return invalid(issues);
+
+  const base = body.presetId ? applyPreset(cfg, {}, body.presetId) : {};
+  const selections: Selections = { ...base, ...(body.selections ?? {}) };
+  if (body.country) selections._country = body.country;
+
+  const result = computeEstimate(cfg, selections);
+  return NextResponse.json({
+    configVersion: cfg.version,
+    lang,
+    country: result.debug.countryCode,
+    presetId: body.presetId ?? null,
+    inputs: localizeInputs(cfg, lang, selections),
+    result: localizeEstimate(lang, result),
+    warnings: issues,
+  });
+}
@@ -0,0 +1,68 @@
+// POST /api/lead — forwards a lead from the PDF export, with a server-side estimate, to LEAD_WEBHOOK_URL.
+
+import { NextResponse } from "next/server";
+import factorsJson from "@/config/factors.json";
+import countriesJson from "@/config/countries.json";
+import currenciesJson from "@/config/currencies.json";
+import { computeEstimate, type Config, type Selections } from "@/lib/estimate";
+import { isLang, DEFAULT_LANG } from "@/lib/i18n";
+import { validateSelections, type ValidationIssue } from "@/lib/validate";
+import { deliverWebhook, validateLead, type Lead, type LeadPayload } from "@/lib/webhook";
+
+const cfg = { ...(factorsJson as any), ...(countriesJson as any), ...(currenciesJson as any) } as Config;
+
+type LeadRequest = { lead?: Lead; lang?: string; selections?: Selections };
+
+function invalid(issues: ValidationIssue[]) {
+  return NextResponse.json({ error: "invalid_request", issues }, { status: 400 });
+}
+
+export async function POST(req: Request) {
+  const url = process.env.LEAD_WEBHOOK_URL;
+  if (!url) return NextResponse.json({ error: "webhook_not_configured" }, { status: 503 });
+
+  let body: LeadRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return invalid([{ level: "error", path: "", message: "body must be valid JSON" }]);
+  }
+  if (!body || typeof body !== "object") return invalid([{ level: "error", path: "", message: "body must be a JSON object" }]);
+
+  const issues = validateLead(body.lead);
+  for (const issue of validateSelections(cfg, body.selections ?? {})) {
+    if (issue.level === "error") issues.push({ ...issue, path: issue.path ? `selections.${issue.path}` : "selections" });
+  }
+  const lang = body.lang ?? DEFAULT_LANG;
+  if (!isLang(lang)) issues.push({ level: "error", path: "lang", message: `unsupported language "${body.lang}"` });
+  if (issues.length) return invalid(issues);
+
+  // the estimate is recomputed here so the receiver never has to trust numbers sent by the browser
+  const selections = body.selections ?? {};
+  const result = computeEstimate(cfg, selections);
+  const lead = body.lead!;
+  const payload: LeadPayload = {
+    type: "lead",
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    lang,
+    country: result.debug.countryCode,
+    configVersion: cfg.version,
+    lead: { name: lead.name, email: lead.email, company: lead.company || undefined, notes: lead.notes || undefined, consent: true },
+    selections,
+    estimate: {
+      currency: result.currency,
+      p50: { hours: result.p50.hours, cost: result.p50.cost },
+      p80: { hours: result.p80.hours, cost: result.p80.cost },
+      vatPercent: result.vat.percent,
+      recurringPerYear: result.recurring.perYear,
+    },
+  };
+
+  // the visitor waits for this answer before the PDF is saved, so all tries together stay within a few seconds
+  const delivery = await deliverWebhook(url, payload, { secret: process.env.LEAD_WEBHOOK_SECRET, timeoutMs: 2_000, deadlineMs: 5_000 });
+  if (!delivery.ok) {
+    return NextResponse.json({ error: "delivery_failed", attempts: delivery.attempts, detail: delivery.error }, { status: 502 });
+  }
+  return NextResponse.json({ ok: true, id: payload.id, attempts: delivery.attempts }, { status: 202 });
+}
@@ -0,0 +1,14 @@
+// GET /api/openapi — OpenAPI 3.1 document for /api/estimate and /api/config.
+
+import { NextResponse } from "next/server";
+import factorsJson from "@/config/factors.json";
+import countriesJson from "@/config/countries.json";
+import currenciesJson from "@/config/currencies.json";
+import type { Config } from "@/lib/estimate";
+import { buildOpenApi } from "@/lib/openapi";
+
+const cfg = { ...(factorsJson as any), ...(countriesJson as any), ...(currenciesJson as any) } as Config;
+
+export async function GET() {
+  return NextResponse.json(buildOpenApi(cfg), { headers: { ETag: `"${cfg.version}"`, "Cache-Control": "public, max-age=300" } });
+}
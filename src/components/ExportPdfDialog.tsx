@@ -5,20 +5,36 @@ import type { Lang } from "@/lib/i18n";
 import { tLever, tOptionLabel } from "@/lib/i18n";
 import factorsJson from "@/config/factors.json";
 import countriesJson from "@/config/countries.json";
+import currenciesJson from "@/config/currencies.json";
 import pdfI18n from "@/config/pdf.i18n.json";
-import type { Selections } from "@/lib/estimate";
+import { OTHER_VALUE, type Selections, type VatSplit, type MaintenanceProjection, type LedgerEntry, type OtherSpec, type CustomLine, type RecurringCosts, type PhaseTotal, type PaymentMilestone } from "@/lib/estimate";
+import type { Schedule } from "@/lib/schedule";
+import type { ScenarioComparison } from "@/lib/compare";
+import type { SensitivityChange, SensitivityResult } from "@/lib/sensitivity";
 
 /** ---- Types & helpers ---- */
-type Cfg = typeof factorsJson & typeof countriesJson;
-type Role = "design" | "frontend" | "backend" | "devops" | "seo" | "content" | "pm" | "qa";
+type Cfg = typeof factorsJson & typeof countriesJson & typeof currenciesJson;
+type Role = "design" | "frontend" | "backend" | "fullstack" | "devops" | "seo" | "content" | "pm" | "qa";
 
 export type ExportResult = {
   currencySymbol: string;
-  p50: { hours: number; cost: number };
-  p80: { hours: number; cost: number };
+  currency?: string;
+  fx?: { base: string; baseSymbol: string; rate: number; date?: string };
+  p50: { hours: number; cost: number } & Partial<VatSplit>;
+  p80: { hours: number; cost: number } & Partial<VatSplit>;
+  vat?: { included: boolean; percent: number };
+  maintenance?: MaintenanceProjection;
+  bands?: Array<{ band: string; hours: number; cost: number }>;
+  schedule?: Schedule;
+  ledger?: LedgerEntry[];
   hoursByRole: Record<Role, number>;
   costByRole: Record<Role, number>;
-  overheads: { pmHours: number; pmCost: number; qaHours: number; qaCost: number };
+  overheads: { pmHours: number; pmCost: number; qaHours: number; qaCost: number; pmPercent?: number; qaPercent?: number };
+  staffing?: "specialists" | "fullstack";
+  customItems?: CustomLine[];
+  recurring?: RecurringCosts;
+  phases?: PhaseTotal[];
+  payments?: PaymentMilestone[];
 };
 
 export type ExportPdfDialogProps = {
@@ -29,10 +45,16 @@ export type ExportPdfDialogProps = {
   selections: Selections;
   result: ExportResult;
   filenamePrefix?: string;
+  /** Two or more named scenarios; offers the comparison table as an extra section */
+  comparison?: ScenarioComparison;
+  /** Levers ranked by cost impact; offers them as an extra section */
+  sensitivity?: SensitivityResult;
+  /** Offer the optional lead form, sent to /api/lead on export */
+  leadCapture?: boolean;
 };
 
 function composeCfg(): Cfg {
-  return { ...(factorsJson as any), ...(countriesJson as any) };
+  return { ...(factorsJson as any), ...(countriesJson as any), ...(currenciesJson as any) };
 }
 function getCountryName(cfg: Cfg, code: string): string {
   return cfg.countries.find((c: any) => c.code === code)?.name ?? code;
@@ -40,6 +62,27 @@ function getCountryName(cfg: Cfg, code: string): string {
 function fmt(n: number, maxFrac = 1) {
   return Number(n).toLocaleString(undefined, { maximumFractionDigits: maxFrac });
 }
+/** "Other: CRM sync (backend 12 h)" instead of a bare "Other" */
+function describeOther(label: string, spec?: OtherSpec) {
+  const desc = typeof spec?.description === "string" ? spec.description.trim() : "";
+  const hours = Object.entries(spec?.hours ?? {})
+    .filter(([, h]) => Number(h) > 0)
+    .map(([r, h]) => `${r} ${fmt(Number(h))} h`)
+    .join(", ");
+  if (!desc && !hours) return label;
+  return `${label}: ${desc || "—"}${hours ? ` (${hours})` : ""}`;
+}
+/** "Shopify +€1,068" or "−CRM −€170" */
+function describeChange(lang: Lang, leverId: string, c: SensitivityChange | undefined, currency: string) {
+  if (!c) return "—";
+  const value = c.toggled ? `${c.toggled.added ? "+" : "−"}${tOptionLabel(lang, leverId, c.toggled.option)}`
+    : typeof c.value === "number" ? String(c.value)
+    : tOptionLabel(lang, leverId, String(c.value));
+  return `${value} ${c.p50Delta < 0 ? "−" : "+"}${currency}${fmt(Math.abs(c.p50Delta), 0)}`;
+}
+function overheadLabel(role: string, percent?: number) {
+  return percent == null ? `${role} (overhead)` : `${role} (overhead ${fmt(percent * 100)}%)`;
+}
 function humanizeSelections(cfg: Cfg, lang: Lang, selections: Selections) {
   const out: Record<string, string | string[]> = {};
   for (const lever of (cfg.levers as any[]) ?? []) {
@@ -48,12 +91,16 @@ function humanizeSelections(cfg: Cfg, lang: Lang, selections: Selections) {
     const L = tLever(lang, id);
     const label = L.label ?? lever.label ?? id;
     const val = selections[id];
+    const optionLabel = (v: string) => {
+      const text = tOptionLabel(lang, id, v, v);
+      return v === OTHER_VALUE ? describeOther(text, selections._other?.[id]) : text;
+    };
     if (lever.type === "number") out[label] = String(val ?? "");
     else if (lever.type === "select") {
-      out[label] = tOptionLabel(lang, id, String(val ?? ""), String(val ?? ""));
+      out[label] = optionLabel(String(val ?? ""));
     } else if (lever.type === "multiselect") {
       const arr: string[] = Array.isArray(val) ? val : [];
-      out[label] = arr.map((v) => tOptionLabel(lang, id, v, v));
+      out[label] = arr.map(optionLabel);
     }
   }
   return out;
@@ -75,6 +122,9 @@ export async function generateEstimatePdf(opts: {
   clientName?: string;
   devName?: string;
   filenamePrefix?: string;
+  includeLedger?: boolean;
+  comparison?: ScenarioComparison;
+  sensitivity?: SensitivityResult;
 }) {
   const { default: jsPDF } = await import("jspdf");
 
@@ -120,7 +170,11 @@ export async function generateEstimatePdf(opts: {
   if (opts.devName) addKV(t.pdf.fields.developer, opts.devName);
   addKV(t.pdf.fields.language, opts.lang.toUpperCase());
   addKV(t.pdf.fields.country, `${countryName} (${opts.countryCode})`);
-  addKV(t.pdf.fields.currency, currency);
+  addKV(t.pdf.fields.currency, opts.result.currency ? `${opts.result.currency} (${currency.trim()})` : currency);
+  const fx = opts.result.fx;
+  if (fx && opts.result.currency && fx.base !== opts.result.currency) {
+    addKV(t.pdf.fields.fxRate, `1 ${fx.base} = ${fmt(fx.rate, 4)} ${opts.result.currency}${fx.date ? ` (${fx.date})` : ""}`);
+  }
 
   // Totals
   addSection(t.pdf.sections.totals);
@@ -129,6 +183,35 @@ export async function generateEstimatePdf(opts: {
   addKV(t.pdf.fields.p80h, fmt(opts.result.p80.hours));
   addKV(t.pdf.fields.p80c, `${currency}${fmt(opts.result.p80.cost, 0)}`);
 
+  // VAT (net / VAT / gross per band)
+  const vat = opts.result.vat;
+  if (vat) {
+    y += 4;
+    addKV(t.pdf.fields.vatRate, `${fmt(vat.percent, 2)}%${vat.included ? ` (${t.pdf.fields.vatIncluded})` : ""}`);
+    for (const [label, band] of [[t.pdf.fields.p50c, opts.result.p50], [t.pdf.fields.p80c, opts.result.p80]] as const) {
+      if (band.net == null || band.vat == null || band.gross == null) continue;
+      addKV(label,
+        `${t.pdf.fields.net} ${currency}${fmt(band.net, 0)} · ${t.pdf.fields.vat} ${currency}${fmt(band.vat, 0)} · ${t.pdf.fields.gross} ${currency}${fmt(band.gross, 0)}`);
+    }
+  }
+
+  // Total cost of ownership (build + recurring fees)
+  const recurring = opts.result.recurring;
+  if (recurring && recurring.perYear > 0) {
+    y += 4;
+    addKV(t.pdf.fields.recurringMonthly, `${currency}${fmt(recurring.monthly, 0)} ${t.pdf.fields.perMonth}`);
+    for (const row of recurring.tco) {
+      addKV(t.pdf.fields.tcoYears.replace("{n}", String(row.years)),
+        `P50 ${currency}${fmt(row.p50, 0)} · P80 ${currency}${fmt(row.p80, 0)}`);
+    }
+  }
+
+  // Simulated confidence bands
+  if (opts.result.bands?.length) {
+    addSection(t.pdf.sections.bands);
+    for (const b of opts.result.bands) addKV(b.band, `${fmt(b.hours)} h · ${currency}${fmt(b.cost, 0)}`);
+  }
+
   // Breakdown
   addSection(t.pdf.sections.breakdown);
   doc.setFont("helvetica", "bold"); doc.setFontSize(11);
@@ -139,15 +222,25 @@ export async function generateEstimatePdf(opts: {
   y += 14;
   doc.setFont("helvetica", "normal");
 
+  const devRows: Array<[string, string, string]> = opts.result.staffing === "fullstack"
+    ? [["Fullstack", fmt(opts.result.hoursByRole.fullstack), `${currency}${fmt(opts.result.costByRole.fullstack, 0)}`]]
+    : [
+      ["Frontend", fmt(opts.result.hoursByRole.frontend), `${currency}${fmt(opts.result.costByRole.frontend, 0)}`],
+      ["Backend", fmt(opts.result.hoursByRole.backend), `${currency}${fmt(opts.result.costByRole.backend, 0)}`],
+    ];
   const rows: Array<[string, string, string]> = [
     ["Design", fmt(opts.result.hoursByRole.design), `${currency}${fmt(opts.result.costByRole.design, 0)}`],
-    ["Frontend", fmt(opts.result.hoursByRole.frontend), `${currency}${fmt(opts.result.costByRole.frontend, 0)}`],
-    ["Backend", fmt(opts.result.hoursByRole.backend), `${currency}${fmt(opts.result.costByRole.backend, 0)}`],
+    ...devRows,
     ["DevOps", fmt(opts.result.hoursByRole.devops), `${currency}${fmt(opts.result.costByRole.devops, 0)}`],
     ["SEO", fmt(opts.result.hoursByRole.seo), `${currency}${fmt(opts.result.costByRole.seo, 0)}`],
     ["Content", fmt(opts.result.hoursByRole.content), `${currency}${fmt(opts.result.costByRole.content, 0)}`],
-    ["PM (overhead)", fmt(opts.result.overheads.pmHours), `${currency}${fmt(opts.result.overheads.pmCost, 0)}`],
-    ["QA (overhead)", fmt(opts.result.overheads.qaHours), `${currency}${fmt(opts.result.overheads.qaCost, 0)}`],
+    ...(opts.result.customItems ?? []).map((it): [string, string, string] => [
+      it.label || t.pdf.fields.customItem,
+      it.kind === "hours" ? fmt(it.hours) : "—",
+      `${currency}${fmt(it.cost, 0)}`,
+    ]),
+    [overheadLabel("PM", opts.result.overheads.pmPercent), fmt(opts.result.overheads.pmHours), `${currency}${fmt(opts.result.overheads.pmCost, 0)}`],
+    [overheadLabel("QA", opts.result.overheads.qaPercent), fmt(opts.result.overheads.qaHours), `${currency}${fmt(opts.result.overheads.qaCost, 0)}`],
   ];
 
   for (const [role, hours, cost] of rows) {
@@ -158,6 +251,77 @@ export async function generateEstimatePdf(opts: {
     y += 16;
   }
 
+  // Phases & payment milestones (first column left, the rest right-aligned)
+  const addTableRow = (cols: string[], bold = false) => {
+    doc.setFont("helvetica", bold ? "bold" : "normal"); doc.setFontSize(11);
+    if (y > page.h - page.m) { doc.addPage(); y = page.m; }
+    doc.text(cols[0], page.m, y);
+    const right = cols.slice(1);
+    const span = page.w / 2 - page.m;
+    right.forEach((c, i) => doc.text(c, page.w / 2 + (span * (i + 1)) / right.length, y, { align: "right" }));
+    y += bold ? 14 : 16;
+  };
+  const pdfFields = t.pdf.fields as Record<string, string>;
+  const phases = (opts.result.phases ?? []).filter((p) => p.hours > 0 || p.cost > 0);
+  if (phases.length) {
+    addSection(t.pdf.sections.phases);
+    addTableRow([t.pdf.fields.phase, t.pdf.fields.hours, t.pdf.fields.cost], true);
+    for (const p of phases) addTableRow([pdfFields[`phase_${p.id}`] ?? p.id, fmt(p.hours), `${currency}${fmt(p.cost, 0)}`]);
+    if (opts.result.payments?.length) {
+      y += 8;
+      addTableRow([t.pdf.fields.milestone, t.pdf.fields.share, "P50", "P80"], true);
+      for (const m of opts.result.payments) {
+        addTableRow([pdfFields[`payment_${m.id}`] ?? m.id, `${fmt(m.percent * 100)}%`, `${currency}${fmt(m.p50, 0)}`, `${currency}${fmt(m.p80, 0)}`]);
+      }
+    }
+  }
+
+  // Schedule (Gantt-style bars)
+  const schedule = opts.result.schedule;
+  if (schedule?.phases.length) {
+    addSection(t.pdf.sections.schedule);
+    const labelW = 120;
+    const barX = page.m + labelW;
+    const barW = page.w - page.m * 2 - labelW - 60;
+    const total = Math.max(schedule.totalWeeks.p50, 0.1);
+    doc.setFont("helvetica", "normal"); doc.setFontSize(10);
+    for (const ph of schedule.phases) {
+      if (y > page.h - page.m) { doc.addPage(); y = page.m; }
+      doc.text((t.pdf.fields as Record<string, string>)[`phase_${ph.id}`] ?? ph.id, page.m, y);
+      doc.setFillColor(90, 90, 90);
+      doc.rect(barX + (ph.startWeek / total) * barW, y - 8, Math.max(1, (ph.weeks / total) * barW), 10, "F");
+      doc.text(`${fmt(ph.weeks)} ${t.pdf.fields.weeks}`, page.w - page.m, y, { align: "right" });
+      y += 16;
+    }
+    addKV(`${t.pdf.fields.totalWeeks} (P50)`, `${fmt(schedule.totalWeeks.p50)} ${t.pdf.fields.weeks}`);
+    addKV(`${t.pdf.fields.totalWeeks} (P80)`, `${fmt(schedule.totalWeeks.p80)} ${t.pdf.fields.weeks}`);
+  }
+
+  // Post-launch
+  const maintenance = opts.result.maintenance;
+  if (maintenance) {
+    addSection(t.pdf.sections.maintenance);
+    addKV(t.pdf.fields.warranty, `${fmt(maintenance.warrantyWeeks, 0)} ${t.pdf.fields.weeks}`);
+    addKV(`${t.pdf.fields.retainerMonthly} (${fmt(maintenance.retainerMonthlyPercent * 100)}%)`,
+      `${fmt(maintenance.monthly.hours)} h · ${currency}${fmt(maintenance.monthly.cost, 0)}`);
+    for (const row of maintenance.totals) {
+      addKV(t.pdf.fields.monthsTotal.replace("{n}", String(row.months)), `${fmt(row.hours)} h · ${currency}${fmt(row.cost, 0)}`);
+    }
+  }
+
+  // Recurring fees per option
+  if (recurring?.items.length) {
+    addSection(t.pdf.sections.recurring);
+    for (const it of recurring.items) {
+      const label = `${tLever(opts.lang, it.leverId).label ?? it.leverId}: ${tOptionLabel(opts.lang, it.leverId, it.value)}`;
+      const parts = [
+        it.monthly > 0 ? `${currency}${fmt(it.monthly, 0)} ${t.pdf.fields.perMonth}` : "",
+        it.yearly > 0 ? `${currency}${fmt(it.yearly, 0)} ${t.pdf.fields.perYear}` : "",
+      ].filter(Boolean);
+      addKV(label, parts.join(" + "));
+    }
+  }
+
   // Selections
   addSection(t.pdf.sections.selections);
   Object.entries(selectionMap).forEach(([label, v]) => {
@@ -167,6 +331,60 @@ export async function generateEstimatePdf(opts: {
     addLine(`${label}: ${value}`, 10, false, 14);
   });
 
+  // Scenario comparison (label column + one right-aligned column per scenario)
+  const comparison = opts.comparison;
+  if (comparison && comparison.columns.length >= 2) {
+    addSection(t.pdf.sections.comparison);
+    const cols = comparison.columns;
+    const clip = (text: string) => (text.length > 22 ? `${text.slice(0, 21)}…` : text);
+    const money = (c: (typeof cols)[number], n: number) => `${c.result.currencySymbol}${fmt(n, 0)}`;
+    addTableRow(["", ...cols.map((c) => clip(c.name))], true);
+    addTableRow([t.pdf.fields.country, ...cols.map((c) => c.country)]);
+    addTableRow([t.pdf.fields.p50c, ...cols.map((c) => money(c, c.result.p50.cost))]);
+    addTableRow([t.pdf.fields.p80c, ...cols.map((c) => money(c, c.result.p80.cost))]);
+    addTableRow([t.pdf.fields.p50h, ...cols.map((c) => fmt(c.result.p50.hours))]);
+    for (const r of ["design", "frontend", "backend", "fullstack", "content", "seo", "devops", "pm", "qa"] as Role[]) {
+      if (!cols.some((c) => c.result.hoursByRole[r] > 0)) continue;
+      addTableRow([r.charAt(0).toUpperCase() + r.slice(1), ...cols.map((c) => `${fmt(c.result.hoursByRole[r])} h`)]);
+    }
+    y += 6;
+    for (const d of comparison.differences) {
+      const label = clip(tLever(opts.lang, d.leverId).label ?? d.leverId);
+      addTableRow([label, ...d.values.map((v) => clip(
+        v == null ? "—"
+          : Array.isArray(v) ? (v.map((x) => tOptionLabel(opts.lang, d.leverId, x)).join(", ") || "—")
+          : typeof v === "number" ? String(v) : tOptionLabel(opts.lang, d.leverId, v)
+      ))]);
+    }
+  }
+
+  // Sensitivity: largest saving and largest increase per lever (P50)
+  const sensitivity = opts.sensitivity;
+  if (sensitivity && sensitivity.levers.length) {
+    addSection(t.pdf.sections.sensitivity);
+    const clip = (text: string) => (text.length > 30 ? `${text.slice(0, 29)}…` : text);
+    addTableRow([t.pdf.fields.lever, t.pdf.fields.saving, t.pdf.fields.increase], true);
+    for (const l of sensitivity.levers) {
+      addTableRow([
+        clip(tLever(opts.lang, l.leverId).label ?? l.leverId),
+        clip(describeChange(opts.lang, l.leverId, l.low, sensitivity.currencySymbol)),
+        clip(describeChange(opts.lang, l.leverId, l.high, sensitivity.currencySymbol)),
+      ]);
+    }
+  }
+
+  // Appendix: calculation ledger
+  if (opts.includeLedger && opts.result.ledger?.length) {
+    addSection(t.pdf.sections.ledger);
+    for (const e of opts.result.ledger) {
+      const source = e.source === "_roleAdjust" ? t.pdf.fields.manualAdjust
+        : e.source === "_overhead" ? `${e.role.toUpperCase()} (${t.pdf.fields.overhead})`
+        : `${tLever(opts.lang, e.source).label ?? e.source}${e.value == null ? "" : `: ${typeof e.value === "number" ? e.value : tOptionLabel(opts.lang, e.source, e.value)}`}${e.note ? ` (${e.note})` : ""}`;
+      const mults = e.multipliers.map((m) => `×${m.factor}`).join(" ");
+      addLine(`${source} — ${e.billedAs}: ${fmt(e.baseHours)} h${mults ? ` ${mults}` : ""} = ${fmt(e.hours)} h · ${currency}${fmt(e.cost, 0)}`, 9, false, 12);
+    }
+  }
+
   const safeClient = (opts.clientName || "client").replace(/[^a-z0-9-_]+/gi, "_").toLowerCase();
   const filePrefix =
     (opts.filenamePrefix || t.pdf.filenamePrefix || "codecost.io")
@@ -178,23 +396,47 @@ export async function generateEstimatePdf(opts: {
 
 /** ---- Dialog component (i18n) ---- */
 export default function ExportPdfDialog(props: ExportPdfDialogProps) {
-  const { open, onClose, lang, countryCode, selections, result, filenamePrefix } = props;
+  const { open, onClose, lang, countryCode, selections, result, filenamePrefix, comparison, sensitivity, leadCapture } = props;
 
   // Hooks first (stable order)
   const [clientName, setClientName] = useState("");
   const [devName, setDevName] = useState("");
+  const [includeLedger, setIncludeLedger] = useState(false);
+  const [includeComparison, setIncludeComparison] = useState(true);
+  const [includeSensitivity, setIncludeSensitivity] = useState(false);
+  const [sendLead, setSendLead] = useState(false);
+  const [lead, setLead] = useState({ email: "", company: "", notes: "", consent: false });
+  const [leadError, setLeadError] = useState("");
   const [busy, setBusy] = useState(false);
 
   if (!open) return null;
 
   const t = getPdfStrings(lang);
 
+  const leadReady = !!clientName.trim() && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(lead.email) && lead.consent;
+
+  /** The client name doubles as the lead's name */
+  const submitLead = async () => {
+    const res = await fetch("/api/lead", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ lang, selections, lead: { name: clientName.trim(), ...lead } }),
+    }).catch(() => null);
+    return !!res?.ok;
+  };
+
   const handleExport = async () => {
+    if (sendLead && !leadReady) { setLeadError(t.dialog.leadMissing); return; }
     try {
       setBusy(true);
+      setLeadError("");
+      // the lead goes first: a failed send keeps the dialog open without having downloaded the PDF yet
+      if (sendLead && !(await submitLead())) { setLeadError(t.dialog.leadFailed); return; }
       await generateEstimatePdf({
         lang, countryCode, selections, result,
-        clientName, devName, filenamePrefix,
+        clientName, devName, filenamePrefix, includeLedger,
+        comparison: includeComparison ? comparison : undefined,
+        sensitivity: includeSensitivity ? sensitivity : undefined,
       });
       onClose?.();
     } finally {
@@ -240,6 +482,69 @@ export default function ExportPdfDialog(props: ExportPdfDialogProps) {
           </label>
         </div>
 
+        <label className="mt-4 flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={includeLedger} onChange={(e) => setIncludeLedger(e.target.checked)} />
+          {t.dialog.includeLedger}
+        </label>
+        {comparison && (
+          <label className="mt-2 flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={includeComparison} onChange={(e) => setIncludeComparison(e.target.checked)} />
+            {t.dialog.includeComparison}
+          </label>
+        )}
+        {sensitivity && sensitivity.levers.length > 0 && (
+          <label className="mt-2 flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={includeSensitivity} onChange={(e) => setIncludeSensitivity(e.target.checked)} />
+            {t.dialog.includeSensitivity}
+          </label>
+        )}
+
+        {leadCapture && (
+          <div className="mt-4 border-t pt-4 border-neutral-200 dark:border-neutral-800">
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={sendLead} onChange={(e) => setSendLead(e.target.checked)} />
+              {t.dialog.leadToggle}
+            </label>
+            {sendLead && (
+              <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="text-sm">
+                  {t.dialog.emailLabel}
+                  <input
+                    type="email"
+                    className="mt-1 w-full rounded-lg p-2 border dark:border-neutral-700 dark:bg-neutral-900"
+                    value={lead.email}
+                    onChange={(e) => setLead({ ...lead, email: e.target.value })}
+                    placeholder="name@example.com"
+                  />
+                </label>
+                <label className="text-sm">
+                  {t.dialog.companyLabel}
+                  <input
+                    type="text"
+                    className="mt-1 w-full rounded-lg p-2 border dark:border-neutral-700 dark:bg-neutral-900"
+                    value={lead.company}
+                    onChange={(e) => setLead({ ...lead, company: e.target.value })}
+                  />
+                </label>
+                <label className="text-sm sm:col-span-2">
+                  {t.dialog.notesLabel}
+                  <textarea
+                    rows={3}
+                    className="mt-1 w-full rounded-lg p-2 border dark:border-neutral-700 dark:bg-neutral-900"
+                    value={lead.notes}
+                    onChange={(e) => setLead({ ...lead, notes: e.target.value })}
+                  />
+                </label>
+                <label className="flex items-start gap-2 text-sm sm:col-span-2">
+                  <input type="checkbox" className="mt-1" checked={lead.consent} onChange={(e) => setLead({ ...lead, consent: e.target.checked })} />
+                  {t.dialog.consentLabel}
+                </label>
+              </div>
+            )}
+            {leadError && <p className="mt-2 text-sm text-red-600 dark:text-red-400" role="alert">{leadError}</p>}
+          </div>
+        )}
+
         <div className="mt-5 flex justify-end gap-2">
           <button
             onClick={onClose}
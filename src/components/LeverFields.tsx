@@ -0,0 +1,262 @@
+"use client";
+
+// Lever form fields and the small atoms they need; shared by the calculator page and the embed widget.
+
+import React, { useState } from "react";
+import { tLever, tOptionLabel, type Lang } from "@/lib/i18n";
+import stringsJson from "@/config/strings.json";
+import { OTHER_VALUE, type Lever, type Role, type Selections } from "@/lib/estimate";
+
+const STR: Record<Lang, Record<string, string>> = stringsJson as any;
+
+/** Roles offered for "other" hours and custom items */
+export const OTHER_ROLES: Role[] = ["design", "frontend", "backend", "devops", "seo", "content"];
+
+/** `locked` renders the field read-only; `accent` colours active choices (embed widget) */
+export type LeverCardOptions = { locked?: boolean; accent?: string };
+
+function cx(...classes: Array<string | false | null | undefined>) {
+  return classes.filter(Boolean).join(" ");
+}
+function clamp(n: number, min?: number, max?: number) {
+  if (typeof n !== "number" || Number.isNaN(n)) return min ?? 0;
+  if (min != null && n < min) return min;
+  if (max != null && n > max) return max;
+  return n;
+}
+
+export function renderLeverCard(
+  lever: Lever,
+  selections: Selections,
+  setSelections: (fn: (s: Selections) => Selections) => void,
+  isDark: boolean,
+  lang?: Lang,
+  opts: LeverCardOptions = {}
+): React.ReactNode {
+  const key = lever.id;
+  const { locked, accent } = opts;
+  const L = tLever(lang as Lang, lever.id);
+  const title = L.label ?? (lever as any).label ?? lever.id;
+  const help = L.help ?? (lever as any).help;
+
+  if (lever.type === "number") {
+    const val = Number(selections[lever.id] ?? (lever as any).default ?? 0);
+    return (
+      <FieldCard key={key} title={title} help={help} locked={locked} isDark={isDark}>
+        <input
+          id={lever.id}
+          type="number"
+          min={(lever as any).min}
+          max={(lever as any).max}
+          value={val}
+          onChange={(e) =>
+            setSelections((s) => ({
+              ...s,
+              [lever.id]: clamp(Number(e.target.value), (lever as any).min, (lever as any).max),
+            }))
+          }
+          className={cx(
+            "w-full rounded-lg p-2 border",
+            isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300"
+          )}
+        />
+      </FieldCard>
+    );
+  }
+
+  if (lever.type === "select") {
+    const val = String(selections[lever.id] ?? (lever as any).default ?? (lever.options[0]?.value ?? ""));
+    const options = lever.options.map((o) => ({
+      value: o.value,
+      label: tOptionLabel(lang as Lang, lever.id, o.value, (o as any).label),
+    }));
+    return (
+      <FieldCard key={key} title={title} help={help} locked={locked} isDark={isDark}>
+        <SelectFancy
+          ariaLabel={title}
+          value={val}
+          onChange={(v) => setSelections((s) => ({ ...s, [lever.id]: v }))}
+          options={options}
+          isDark={isDark}
+        />
+        {val === OTHER_VALUE && (
+          <OtherEditor leverId={lever.id} selections={selections} setSelections={setSelections} isDark={isDark} lang={lang as Lang} />
+        )}
+      </FieldCard>
+    );
+  }
+
+  if (lever.type === "multiselect") {
+    const vals: string[] = Array.isArray(selections[lever.id]) ? selections[lever.id] : [];
+    const maxSelected = (lever as any).maxSelected as number | undefined;
+    return (
+      <FieldCard key={key} title={title} help={help} locked={locked} isDark={isDark}>
+        <div className="mt-1 flex flex-wrap gap-2">
+          {lever.options.map((o) => {
+            const active = vals.includes(o.value);
+            const label = tOptionLabel(lang as Lang, lever.id, o.value, (o as any).label);
+            return (
+              <button
+                key={o.value}
+                type="button"
+                onClick={() => {
+                  setSelections((s) => {
+                    const curr: string[] = Array.isArray(s[lever.id]) ? s[lever.id] : [];
+                    const exists = curr.includes(o.value);
+                    let next = exists ? curr.filter((x) => x !== o.value) : [...curr, o.value];
+                    if (maxSelected && next.length > maxSelected) next = next.slice(0, maxSelected);
+                    return { ...s, [lever.id]: next };
+                  });
+                }}
+                style={active && accent ? { backgroundColor: accent, borderColor: accent, color: "#fff" } : undefined}
+                className={cx(
+                  "px-3 py-1 rounded-lg border transition",
+                  active
+                    ? (isDark ? "border-neutral-100 bg-neutral-100 text-neutral-900" : "border-neutral-900 bg-neutral-900 text-white")
+                    : (isDark ? "border-neutral-700 bg-neutral-900 text-neutral-200 hover:border-neutral-500" : "border-neutral-300 bg-white text-neutral-800 hover:border-neutral-500")
+                )}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+        {maxSelected && (<p className="w-full mt-2 text-xs text-neutral-500">Max {maxSelected} selections.</p>)}
+        {vals.includes(OTHER_VALUE) && (
+          <OtherEditor leverId={lever.id} selections={selections} setSelections={setSelections} isDark={isDark} lang={lang as Lang} />
+        )}
+      </FieldCard>
+    );
+  }
+
+  return null;
+}
+
+/** Description + hours per role for a picked "other" option, stored in `selections._other[leverId]` */
+function OtherEditor({
+  leverId,
+  selections,
+  setSelections,
+  isDark,
+  lang
+}: {
+  leverId: string;
+  selections: Selections;
+  setSelections: (fn: (s: Selections) => Selections) => void;
+  isDark: boolean;
+  lang: Lang;
+}) {
+  const T = STR[lang];
+  const spec = selections._other?.[leverId] ?? {};
+  const update = (patch: Record<string, any>) =>
+    setSelections((s) => ({ ...s, _other: { ...(s._other ?? {}), [leverId]: { ...(s._other?.[leverId] ?? {}), ...patch } } }));
+  const inputCls = cx("rounded-lg p-2 border", isDark ? "bg-neutral-900 border-neutral-700" : "bg-white border-neutral-300");
+  return (
+    <div className="mt-3 space-y-2">
+      <input
+        type="text"
+        placeholder={T.otherDescription}
+        value={spec.description ?? ""}
+        onChange={(e) => update({ description: e.target.value })}
+        className={cx("w-full", inputCls)}
+      />
+      <div className="text-xs text-neutral-500">{T.otherHours}</div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {OTHER_ROLES.map((role) => (
+          <label key={role} className="flex items-center justify-between gap-2 text-sm">
+            <span className="capitalize">{role}</span>
+            <input
+              type="number"
+              min={0}
+              value={Number(spec.hours?.[role] ?? 0)}
+              onChange={(e) => update({ hours: { ...(spec.hours ?? {}), [role]: Math.max(0, Number(e.target.value) || 0) } })}
+              className={cx("w-20", inputCls)}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function FieldCard({ title, help, locked, children, isDark }: { title: string; help?: string; locked?: boolean; children: React.ReactNode; isDark: boolean }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className={cx("relative rounded-xl p-4 sm:p-5 border", isDark ? "border-neutral-800" : "border-neutral-200")}>
+      <div className="flex items-start justify-between">
+        <label className={cx("text-sm", isDark ? "text-neutral-300" : "text-neutral-700")}>{title}</label>
+        {help ? <HelpDot text={help} onClick={() => setOpen(!open)} open={open} isDark={isDark} /> : null}
+      </div>
+      {help && open && <Popover title={title} text={help} onClose={() => setOpen(false)} isDark={isDark} />}
+      <fieldset disabled={locked} className={cx("mt-3", locked && "opacity-60")}>{children}</fieldset>
+    </div>
+  );
+}
+
+export function HelpDot({ text, onClick, open, isDark }: { text: string; onClick?: () => void; open?: boolean; isDark: boolean }) {
+  const [localOpen, setLocalOpen] = useState(false);
+  const toggler = onClick ?? (() => setLocalOpen(!localOpen));
+  const state = open ?? localOpen;
+  return (
+    <button
+      type="button"
+      onClick={(e) => { e.stopPropagation(); toggler(); }}
+      className={cx(
+        "ml-2 inline-flex h-5 w-5 items-center justify-center rounded-full border text-xs",
+        isDark ? cx("border-neutral-600 text-neutral-300 hover:bg-neutral-800", state && "bg-neutral-800")
+               : cx("border-neutral-400 text-neutral-700 hover:bg-neutral-100", state && "bg-neutral-100")
+      )}
+      aria-label={text}
+      aria-expanded={state}
+      title={text}
+    >
+      <span className="leading-none">?</span>
+    </button>
+  );
+}
+
+function Popover({ title, text, onClose, isDark }: { title: string; text: string; onClose: () => void; isDark: boolean }) {
+  return (
+    <div className={cx(
+      "absolute right-3 top-10 z-10 w-72 rounded-lg p-3 text-sm shadow-xl border",
+      isDark ? "bg-neutral-900 border-neutral-700 text-neutral-200" : "bg-white border-neutral-200 text-neutral-800"
+    )}>
+      <div className="font-medium mb-1">{title}</div>
+      <div>{text}</div>
+      <div className="mt-2 text-right">
+        <button className={cx("text-xs", isDark ? "text-neutral-400 hover:text-neutral-200" : "text-neutral-600 hover:text-neutral-900")} onClick={onClose}>Close</button>
+      </div>
+    </div>
+  );
+}
+
+/* Improved dropdown */
+export function SelectFancy({
+  value, onChange, options, ariaLabel, isDark, widthClass
+}: {
+  value: string; onChange: (v: string) => void; options: { value: string; label: string }[]; ariaLabel?: string; isDark: boolean; widthClass?: string;
+}) {
+  return (
+    <div className={cx("relative", widthClass ?? "w-[200px]")}>
+      <select
+        aria-label={ariaLabel}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={cx(
+          "w-full appearance-none rounded-lg pl-3 pr-8 py-2 text-sm border focus:outline-none focus:ring-2",
+          isDark
+            ? "bg-neutral-900 border-neutral-700 focus:ring-neutral-600"
+            : "bg-white border-neutral-300 focus:ring-neutral-400"
+        )}
+      >
+        {options.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </select>
+      {/* Chevron */}
+      <div className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2">
+        <svg width="16" height="16" viewBox="0 0 20 20" fill="none" aria-hidden="true">
+          <path d="M6 8l4 4 4-4" stroke="currentColor" strokeWidth="1.6" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+      </div>
+    </div>
+  );
+}
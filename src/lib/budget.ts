@@ -0,0 +1,167 @@
+// Budget-first mode: search lever changes that bring the estimate under a target, staying close to the preferred selections.
+
+import { computeEstimate, resolveSelections, type Config, type Selections } from "@/lib/estimate";
+import { analyzeSensitivity } from "@/lib/sensitivity";
+
+export type BudgetMetric = "p50" | "p80";
+
+export type BudgetOptions = {
+  metric?: BudgetMetric;
+  /** Lever ids the search must not touch */
+  locked?: string[];
+  /** Selections to stay close to; defaults to the starting selections */
+  preferred?: Selections;
+  /** Number of suggestions returned */
+  limit?: number;
+  /** Search breadth and depth (single-lever changes per suggestion) */
+  beamWidth?: number;
+  maxSteps?: number;
+};
+
+export type BudgetChange = { leverId: string; from: unknown; to: unknown };
+
+export type BudgetSuggestion = {
+  selections: Selections;
+  p50: number;
+  p80: number;
+  /** How far from the preferred selections: 1 per select, 0.5 per multiselect option, relative change for numbers */
+  distance: number;
+  changes: BudgetChange[];
+};
+
+export type BudgetResult = {
+  metric: BudgetMetric;
+  budget: number;
+  current: { p50: number; p80: number; fits: boolean };
+  suggestions: BudgetSuggestion[];
+  /** Cheapest target-metric cost the search reached; shows how far off an unreachable budget is */
+  lowestFound: number;
+  currency: string;
+  currencySymbol: string;
+};
+
+type Candidate = { selections: Selections; cost: number; distance: number; saved: number };
+
+function leverValues(config: Config, selections: Selections) {
+  const { selections: resolved, visibleIds } = resolveSelections(config, selections);
+  const out = new Map<string, unknown>();
+  for (const lever of config.levers) if (visibleIds.has(lever.id)) out.set(lever.id, resolved[lever.id]);
+  return out;
+}
+
+function leverDistance(a: unknown, b: unknown) {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const x: unknown[] = Array.isArray(a) ? a : [];
+    const y: unknown[] = Array.isArray(b) ? b : [];
+    return 0.5 * (x.filter((v) => !y.includes(v)).length + y.filter((v) => !x.includes(v)).length);
+  }
+  if (typeof a === "number" && typeof b === "number") return Math.min(1, Math.abs(a - b) / Math.max(1, Math.abs(b)));
+  return a === b ? 0 : 1;
+}
+
+function diff(config: Config, preferred: Map<string, unknown>, selections: Selections) {
+  const values = leverValues(config, selections);
+  const changes: BudgetChange[] = [];
+  let distance = 0;
+  for (const lever of config.levers) {
+    const from = preferred.get(lever.id);
+    const to = values.get(lever.id);
+    // a lever that only appears or disappears through dependencies is not a choice the user has to make
+    if (from === undefined || to === undefined) continue;
+    const d = leverDistance(to, from);
+    if (d > 0) { distance += d; changes.push({ leverId: lever.id, from, to }); }
+  }
+  return { distance, changes };
+}
+
+/**
+ * Beam search over single-lever changes that lower the target metric. Half of the beam keeps the
+ * cheapest states, half the ones that saved most per unit of distance, so suggestions differ in kind.
+ */
+export function suggestForBudget(config: Config, rawSelections: Selections, budget: number, opts: BudgetOptions = {}): BudgetResult {
+  const metric = opts.metric ?? "p50";
+  const locked = new Set(opts.locked ?? []);
+  const limit = opts.limit ?? 3;
+  const beamWidth = opts.beamWidth ?? 6;
+  const maxSteps = opts.maxSteps ?? 10;
+  const preferredRaw = opts.preferred ?? rawSelections;
+  const preferred = leverValues(config, preferredRaw);
+
+  // the search compares hundreds of estimates, so it uses the quick P80; `current` is the headline figure
+  const base = computeEstimate(config, rawSelections, { simulate: false });
+  const headline = computeEstimate(config, rawSelections);
+  const baseCost = base[metric].cost;
+  const fitsBudget = (cost: number) => cost <= budget;
+  const fits = fitsBudget(headline[metric].cost);
+
+  const seen = new Set<string>([JSON.stringify(rawSelections)]);
+  const solutions: Candidate[] = [];
+  let lowestFound = baseCost;
+  let frontier: Candidate[] = [{ selections: rawSelections, cost: baseCost, distance: 0, saved: 0 }];
+
+  for (let step = 0; step < maxSteps && frontier.length && !fits; step++) {
+    const next: Candidate[] = [];
+    for (const state of frontier) {
+      for (const lever of analyzeSensitivity(config, state.selections).levers) {
+        if (locked.has(lever.leverId)) continue;
+        for (const c of lever.changes) {
+          const delta = metric === "p50" ? c.p50Delta : c.p80Delta;
+          if (delta >= 0) continue;
+          const selections = { ...state.selections, [lever.leverId]: c.value };
+          const key = JSON.stringify(selections);
+          if (seen.has(key)) continue;
+          seen.add(key);
+          const cost = state.cost + delta;
+          lowestFound = Math.min(lowestFound, cost);
+          next.push({ selections, cost, distance: diff(config, preferred, selections).distance, saved: baseCost - cost });
+        }
+      }
+    }
+    next.filter((c) => fitsBudget(c.cost)).forEach((c) => solutions.push(c));
+    if (solutions.length >= limit * 2) break;
+
+    const open = next.filter((c) => !fitsBudget(c.cost));
+    const half = Math.ceil(beamWidth / 2);
+    const cheapest = [...open].sort((a, b) => a.cost - b.cost).slice(0, half);
+    const efficient = [...open].sort((a, b) => b.saved / Math.max(a.distance, 0.01) - a.saved / Math.max(b.distance, 0.01));
+    frontier = [...cheapest, ...efficient.filter((c) => !cheapest.includes(c)).slice(0, beamWidth - half)];
+  }
+
+  // undo steps that turned out unnecessary, then rank by closeness to the preferred selections
+  const refined = solutions
+    .map((s) => prune(config, s, preferredRaw, preferred, locked, metric, budget))
+    .sort((a, b) => a.distance - b.distance || b[metric] - a[metric]);
+  // the same levers for the same money (Wix or Squarespace, say) is one suggestion, not two
+  const unique = new Map<string, BudgetSuggestion>();
+  for (const s of refined) {
+    const key = `${s.p50}|${s.p80}|${s.changes.map((c) => c.leverId).sort().join(",")}`;
+    if (!unique.has(key)) unique.set(key, s);
+  }
+  const suggestions = [...unique.values()].slice(0, limit);
+
+  return {
+    metric,
+    budget,
+    current: { p50: headline.p50.cost, p80: headline.p80.cost, fits },
+    suggestions,
+    lowestFound,
+    currency: base.currency,
+    currencySymbol: base.currencySymbol,
+  };
+}
+
+function prune(
+  config: Config, solution: Candidate, preferredRaw: Selections, preferred: Map<string, unknown>,
+  locked: Set<string>, metric: BudgetMetric, budget: number
+): BudgetSuggestion {
+  let selections = solution.selections;
+  let result = computeEstimate(config, selections, { simulate: false });
+  for (const change of diff(config, preferred, selections).changes) {
+    if (locked.has(change.leverId)) continue;
+    const trial = { ...selections, [change.leverId]: preferredRaw[change.leverId] };
+    const r = computeEstimate(config, trial, { simulate: false });
+    if (r[metric].cost <= budget) { selections = trial; result = r; }
+  }
+  const { distance, changes } = diff(config, preferred, selections);
+  return { selections, p50: result.p50.cost, p80: result.p80.cost, distance: Math.round(distance * 100) / 100, changes };
+}
@@ -0,0 +1,11 @@
+// Runs the budget search in a Web Worker: the beam search computes hundreds of estimates and would freeze the page.
+
+import { suggestForBudget, type BudgetOptions } from "@/lib/budget";
+import type { Config, Selections } from "@/lib/estimate";
+
+export type BudgetRequest = { config: Config; selections: Selections; budget: number; opts: BudgetOptions };
+
+self.onmessage = (e: MessageEvent<BudgetRequest>) => {
+  const { config, selections, budget, opts } = e.data;
+  self.postMessage(suggestForBudget(config, selections, budget, opts));
+};
@@ -0,0 +1,145 @@
+// Preset calibration: compute every preset × country, compare P50 against meta.targetP50Range
+// and suggest uniform hour scaling (overall, per role or per lever) that brings presets into range.
+
+import { computeEstimate, type Config, type HoursValue, type Role } from "@/lib/estimate";
+
+export type CalibrationStatus = "below" | "within" | "above";
+
+export type CalibrationRow = {
+  presetId: string;
+  country: string;
+  p50: number;
+  target: [number, number];
+  status: CalibrationStatus;
+  /** Factor on the whole P50 that would reach the nearest bound (1 when already within) */
+  scaleToFit: number;
+};
+
+export type ScalingSuggestion = {
+  kind: "all" | "role" | "lever";
+  id: string;
+  factor: number;
+  withinBefore: number;
+  withinAfter: number;
+  total: number;
+};
+
+export type CalibrationReport = {
+  targetCurrency: string;
+  rows: CalibrationRow[];
+  suggestions: ScalingSuggestion[];
+};
+
+type Scope = { kind: ScalingSuggestion["kind"]; id: string };
+
+const ROLES: Role[] = ["design", "frontend", "backend", "pm", "qa", "devops", "seo", "content", "fullstack"];
+const NUMBER_HOUR_BLOCKS = ["hoursPerUnit", "hoursPerBatch", "hoursBase", "hoursPerExtraLocale"];
+
+function round(n: number, p = 0) { const m = Math.pow(10, p); return Math.round(n * m) / m; }
+
+function scaleHours(v: HoursValue, f: number): HoursValue {
+  return Array.isArray(v) ? (v.map((x) => x * f) as [number, number, number]) : v * f;
+}
+
+/** Copy of the config with the hours in `scope` multiplied by `f` */
+function scaleConfig(config: Config, scope: Scope, f: number): Config {
+  const hit = (leverId: string, role: string) =>
+    scope.kind === "all" || (scope.kind === "role" && scope.id === role) || (scope.kind === "lever" && scope.id === leverId);
+  const levers = config.levers.map((lever) => {
+    if (lever.type === "number") {
+      const next: any = { ...lever };
+      for (const block of NUMBER_HOUR_BLOCKS) {
+        if (!next[block]) continue;
+        next[block] = { ...next[block] };
+        for (const role of Object.keys(next[block])) {
+          if (role !== "batchSize" && hit(lever.id, role)) next[block][role] = scaleHours(next[block][role], f);
+        }
+      }
+      return next;
+    }
+    return {
+      ...lever,
+      options: lever.options.map((opt) => {
+        const next: any = { ...opt };
+        for (const k of Object.keys(opt)) {
+          if (k.startsWith("hours.") && hit(lever.id, k.split(".")[1])) next[k] = scaleHours(opt[k], f);
+        }
+        return next;
+      }),
+    };
+  });
+  return { ...config, levers } as Config;
+}
+
+function statusOf(p50: number, [min, max]: [number, number]): CalibrationStatus {
+  return p50 < min ? "below" : p50 > max ? "above" : "within";
+}
+
+/** Scopes worth suggesting: every role and lever that actually carries hours */
+function candidateScopes(config: Config): Scope[] {
+  const roles = new Set<string>();
+  const levers = new Set<string>();
+  for (const lever of config.levers) {
+    const keys = lever.type === "number"
+      ? NUMBER_HOUR_BLOCKS.flatMap((b) => Object.keys((lever as any)[b] ?? {})).filter((k) => k !== "batchSize")
+      : lever.options.flatMap((o) => Object.keys(o).filter((k) => k.startsWith("hours.")).map((k) => k.split(".")[1]));
+    if (keys.length) levers.add(lever.id);
+    keys.forEach((k) => roles.add(k));
+  }
+  return [
+    { kind: "all", id: "all" },
+    ...ROLES.filter((r) => roles.has(r)).map((id) => ({ kind: "role" as const, id })),
+    ...[...levers].map((id) => ({ kind: "lever" as const, id })),
+  ];
+}
+
+export function calibratePresets(
+  config: Config,
+  opts: { countries?: string[]; targetCurrency?: string; maxSuggestions?: number } = {}
+): CalibrationReport {
+  const targetCurrency = opts.targetCurrency ?? "EUR";
+  const countries = opts.countries ?? config.countries.map((c) => c.code);
+  const combos = (config.presets ?? [])
+    .filter((p) => Array.isArray(p.meta?.targetP50Range))
+    .flatMap((p) => countries.map((country) => ({
+      presetId: p.id,
+      country,
+      target: p.meta.targetP50Range as [number, number],
+      selections: { ...p.values, _country: country, _displayCurrency: targetCurrency },
+    })));
+
+  const p50With = (cfg: Config) => combos.map((c) => computeEstimate(cfg, c.selections, { simulate: false }).p50.cost);
+
+  const base = p50With(config);
+  const rows: CalibrationRow[] = combos.map((c, i) => {
+    const p50 = base[i];
+    const status = statusOf(p50, c.target);
+    const bound = status === "below" ? c.target[0] : status === "above" ? c.target[1] : p50;
+    return { presetId: c.presetId, country: c.country, p50, target: c.target, status, scaleToFit: p50 > 0 ? round(bound / p50, 3) : 1 };
+  });
+  const withinBefore = rows.filter((r) => r.status === "within").length;
+
+  // P50 is linear in the scaled hours: p50(f) = a + b·f, so each combo fits for f in [lo, hi]
+  const suggestions: ScalingSuggestion[] = [];
+  for (const scope of candidateScopes(config)) {
+    const at0 = p50With(scaleConfig(config, scope, 0));
+    const intervals = combos.map((c, i) => {
+      const a = at0[i];
+      const b = base[i] - a;
+      if (b <= 0) return statusOf(base[i], c.target) === "within" ? [0, Infinity] : null;
+      return [(c.target[0] - a) / b, (c.target[1] - a) / b];
+    });
+    const points = [1, ...intervals.flatMap((iv) => (iv ? iv.filter((x) => Number.isFinite(x) && x > 0) : []))];
+    let best = { factor: 1, count: -1 };
+    for (const f of points) {
+      const count = intervals.filter((iv) => iv && f >= iv[0] - 1e-9 && f <= iv[1] + 1e-9).length;
+      if (count > best.count || (count === best.count && Math.abs(f - 1) < Math.abs(best.factor - 1))) best = { factor: f, count };
+    }
+    if (best.count > withinBefore) {
+      suggestions.push({ ...scope, factor: round(best.factor, 3), withinBefore, withinAfter: best.count, total: combos.length });
+    }
+  }
+  suggestions.sort((x, y) => y.withinAfter - x.withinAfter || Math.abs(x.factor - 1) - Math.abs(y.factor - 1));
+
+  return { targetCurrency, rows, suggestions: suggestions.slice(0, opts.maxSuggestions ?? 10) };
+}
@@ -0,0 +1,38 @@
+// Named scenarios: estimate several selections side by side and list the levers that differ.
+
+import { computeEstimate, resolveSelections, type Config, type EstimateResult, type Selections } from "@/lib/estimate";
+
+export type Scenario = { id: string; name: string; selections: Selections };
+
+/** `result.p80` is the quick (non-simulated) P80, see `EstimateOptions` */
+export type ScenarioColumn = { id: string; name: string; country: string; result: EstimateResult };
+
+/** One row per lever whose value differs between scenarios; `undefined` means hidden in that scenario */
+export type LeverDifference = { leverId: string; values: Array<string | number | string[] | undefined> };
+
+export type ScenarioComparison = {
+  columns: ScenarioColumn[];
+  differences: LeverDifference[];
+};
+
+function sameValue(a: unknown, b: unknown) {
+  const norm = (v: unknown) => JSON.stringify(Array.isArray(v) ? [...v].sort() : v ?? null);
+  return norm(a) === norm(b);
+}
+
+export function compareScenarios(config: Config, scenarios: Scenario[]): ScenarioComparison {
+  const resolved = scenarios.map((sc) => resolveSelections(config, sc.selections));
+  const columns = scenarios.map((sc, i) => ({
+    id: sc.id,
+    name: sc.name,
+    country: String(resolved[i].selections._country ?? config.countries[0].code),
+    result: computeEstimate(config, sc.selections, { simulate: false }),
+  }));
+
+  const differences: LeverDifference[] = [];
+  for (const lever of config.levers) {
+    const values = resolved.map((r) => (r.visibleIds.has(lever.id) ? r.selections[lever.id] : undefined));
+    if (values.some((v) => !sameValue(v, values[0]))) differences.push({ leverId: lever.id, values });
+  }
+  return { columns, differences };
+}
@@ -0,0 +1,81 @@
+// Embed widget: query-string options and the postMessage protocol between the iframe and its parent.
+
+import type { Config, EstimateResult, Selections } from "@/lib/estimate";
+import type { ValidationIssue } from "@/lib/validate";
+
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export type EmbedOptions = {
+  presetId?: string;
+  country?: string;
+  /** Levers shown read-only */
+  locked: string[];
+  /** Lever groups left out entirely */
+  hiddenGroups: string[];
+  /** CSS colour for highlights, e.g. "#0a7cff" */
+  accent?: string;
+  theme: "light" | "dark";
+  /**
+   * The only origin that receives updates and may send commands. Without it the widget neither posts
+   * nor listens: estimates carry the visitor's selections, so they never go to an unknown framing page.
+   */
+  parentOrigin?: string;
+};
+
+/** Messages the widget posts to `window.parent` */
+export type EmbedEvent =
+  | { type: "codecost:ready"; version: number; configVersion: string }
+  | { type: "codecost:estimate"; version: number; selections: Selections; result: EstimateResult }
+  | { type: "codecost:resize"; version: number; height: number }
+  | { type: "codecost:error"; version: number; command: string; issues: ValidationIssue[] };
+
+/** Commands the parent may post to the widget */
+export type EmbedCommand =
+  | { type: "codecost:setSelections"; selections: Selections }
+  | { type: "codecost:applyPreset"; presetId: string }
+  | { type: "codecost:setCountry"; country: string }
+  | { type: "codecost:lock"; leverIds: string[] }
+  | { type: "codecost:reset" }
+  | { type: "codecost:getEstimate" };
+
+const list = (v: string | null) => (v ? v.split(",").map((x) => x.trim()).filter(Boolean) : []);
+
+/** Hex colours and plain colour names only, so the value is safe to drop into a style attribute */
+function parseAccent(v: string | null) {
+  if (!v) return undefined;
+  if (/^[0-9a-f]{3}([0-9a-f]{3})?$/i.test(v)) return `#${v}`;
+  if (/^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(v) || /^[a-z]+$/i.test(v)) return v;
+  return undefined;
+}
+
+/** A bare http(s) origin ("https://partner.example"); paths, wildcards and other schemes are refused */
+function parseOrigin(v: string | null) {
+  if (!v) return undefined;
+  try {
+    const url = new URL(v);
+    return (url.protocol === "https:" || url.protocol === "http:") && url.origin === v.replace(/\/$/, "") ? url.origin : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** `?preset=…&lock=a,b&hide=group&country=NL&accent=0a7cff&theme=dark&origin=https://partner.example`; unknown ids are dropped. */
+export function parseEmbedOptions(config: Config, params: URLSearchParams): EmbedOptions {
+  const leverIds = new Set(config.levers.map((l) => l.id));
+  const groupIds = new Set((config.ui?.groups ?? []).map((g) => g.id));
+  const preset = params.get("preset");
+  const country = params.get("country");
+  return {
+    presetId: preset && config.presets?.some((p) => p.id === preset) ? preset : undefined,
+    country: country && config.countries.some((c) => c.code === country) ? country : undefined,
+    locked: list(params.get("lock")).filter((id) => leverIds.has(id)),
+    hiddenGroups: list(params.get("hide")).filter((id) => groupIds.has(id)),
+    accent: parseAccent(params.get("accent")),
+    theme: params.get("theme") === "dark" ? "dark" : "light",
+    parentOrigin: parseOrigin(params.get("origin")),
+  };
+}
+
+export function isEmbedCommand(data: unknown): data is EmbedCommand {
+  return !!data && typeof data === "object" && typeof (data as any).type === "string" && (data as any).type.startsWith("codecost:");
+}
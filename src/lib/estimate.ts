@@ -8,38 +8,76 @@ export type Role =
   | "qa"
   | "devops"
   | "seo"
-  | "content";
+  | "content"
+  | "fullstack";
 
 export type RatesByRole = Record<Role, number>;
 
+/** Hours are either a single value or an [optimistic, likely, pessimistic] triple. */
+export type HoursValue = number | [number, number, number];
+type RoleHours = Partial<Record<Role, HoursValue>>;
+
 type Country = {
   code: string;
   name: string;
   currency: string;
-  baseRates: RatesByRole & Partial<Record<"fullstack", number>>;
+  baseRates: Omit<RatesByRole, "fullstack"> & Partial<Record<"fullstack", number>>;
   tax: { vatIncluded: boolean; vatPercent: number };
 };
 
-type VisibleWhenRule = { id: string; equals: string | number | boolean };
+type Scalar = string | number | boolean;
+
+/**
+ * Condition on selections. Leaves test one lever (every operator given must hold);
+ * `all` / `any` / `not` combine them. `{ id, equals }` is the original single-lever rule.
+ */
+export type Condition =
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+  | { id: string; equals?: Scalar; in?: Scalar[]; includes?: Scalar; gt?: number; gte?: number; lt?: number; lte?: number };
 
-type LeverCommon = { id: string; label: string; group?: string; help?: string; visibleWhen?: VisibleWhenRule[] };
+type LeverCommon = { id: string; label: string; group?: string; help?: string; visibleWhen?: Condition[] };
 type LeverSelect = LeverCommon & { type: "select"; options: Array<Record<string, any> & { value: string; label: string }>; default?: string; };
 type LeverMultiselect = LeverCommon & { type: "multiselect"; options: Array<Record<string, any> & { value: string; label: string }>; maxSelected?: number; };
 type LeverNumber = LeverCommon & {
   type: "number"; unit?: string; min?: number; max?: number; default?: number;
-  hoursPerUnit?: Partial<Record<Role, number>>;
-  hoursPerBatch?: { batchSize: number } & Partial<Record<Role, number>>;
-  hoursBase?: Partial<Record<Role, number>>;
-  hoursPerExtraLocale?: Partial<Record<Role, number>>;
+  hoursPerUnit?: RoleHours;
+  hoursPerBatch?: { batchSize: number } & RoleHours;
+  hoursBase?: RoleHours;
+  hoursPerExtraLocale?: RoleHours;
 };
 export type Lever = LeverSelect | LeverMultiselect | LeverNumber;
 
-type Dependency = { if: { id: string; equals: string | number | boolean }; then?: { hide?: string[]; adjust?: Array<{ id: string; set: any }>; show?: string[] } };
+export type OverheadPercents = { pm: number; qa: number };
+
+/** Context-dependent PM/QA percentages, applied in config order: `set` replaces, `add` adds to the current value. */
+export type OverheadRule = { if: Condition; set?: Partial<OverheadPercents>; add?: Partial<OverheadPercents> };
+
+/**
+ * Billing phases. A lever maps to one phase (or per role); otherwise its role decides, then `default`.
+ * Overhead roles without a phase (typically pm) are spread over the phases pro rata.
+ */
+export type PhaseConfig = {
+  order: string[];
+  roles?: Partial<Record<Role, string>>;
+  levers?: Record<string, string | Partial<Record<Role, string>>>;
+  default: string;
+  /** Payment milestones; `percent` fractions should add up to 1, `due` names the phase that triggers it */
+  payments?: Array<{ id: string; percent: number; due?: string }>;
+};
+
+/** `show` targets are hidden unless one of the dependencies listing them is active; `hide` wins over `show`. */
+type Dependency = { if: Condition; then?: { hide?: string[]; adjust?: Array<{ id: string; set: any }>; show?: string[] } };
 
 export type Config = {
   version: string;
   currencyDefault: string;
   currencies?: Record<string, { symbol: string; fxToEUR: number }>;
+  fxDate?: string;
+  /** Currency of `recurring.monthly` / `recurring.yearly` option amounts (defaults to the country currency) */
+  recurringCurrency?: string;
+  phases?: PhaseConfig;
   ui?: { groups?: { id: string; label: string }[] };
   countries: Country[];
   globalOverheads: {
@@ -47,27 +85,110 @@ export type Config = {
     qaPercentOfBuild: number;
     contingencyRiskBands: { low: number; medium: number; high: number };
     maintenance?: { warrantyWeeks: number; retainerMonthlyPercent: number };
+    overheadRules?: OverheadRule[];
   };
+  schedule?: { weeklyHoursPerPerson: number; launchWeeks?: number; timelineCompression?: Record<string, number> };
   levers: Lever[];
   dependencies?: Dependency[];
   presets?: Array<{ id: string; label: string; country: string; values: Record<string, any>; meta?: any }>;
-  outputConfig?: { showBands?: Array<"P50" | "P80">; rounding?: { currency?: number; hours?: number }; includeAssumptions?: boolean; includeExclusions?: boolean; };
+  outputConfig?: { showBands?: Array<`P${number}`>; rounding?: { currency?: number; hours?: number }; includeAssumptions?: boolean; includeExclusions?: boolean; };
   assumptions?: string[];
   exclusions?: string[];
 };
 
 export type Selections = Record<string, any>;
 
+/** Option value that lets the user describe and price something the catalog doesn't cover */
+export const OTHER_VALUE = "other";
+
+/** What the user entered for a picked "other" option, stored as `selections._other[leverId]` */
+export type OtherSpec = { description?: string; hours?: Partial<Record<Role, number>> };
+
+/** Ad-hoc quote line stored in `selections._customItems`: hours on a build role, or a fixed amount in the rate currency */
+export type CustomItem = {
+  id: string;
+  label: string;
+  kind: "hours" | "fixed";
+  role?: Role;
+  hours?: number;
+  amount?: number;
+  /** Counts toward PM/QA overhead and contingency (P80); otherwise added at face value */
+  loaded?: boolean;
+};
+
+/** A custom item as priced in the estimate */
+export type CustomLine = {
+  id: string;
+  label: string;
+  kind: "hours" | "fixed";
+  role?: Role;
+  billedAs?: Role;
+  loaded: boolean;
+  hours: number;
+  cost: number;
+};
+
+export type VatSplit = { net: number; vat: number; gross: number };
+
+/** One line of the "how this was calculated" ledger */
+export type LedgerEntry = {
+  /** Lever id, or "_roleAdjust" for manual deltas and "_overhead" for PM/QA overheads */
+  source: string;
+  value?: string | number;
+  role: Role;
+  /** Role the hours are billed at (differs from `role` for fullstack staffing) */
+  billedAs: Role;
+  /** Free-text description of an "other" option */
+  note?: string;
+  baseHours: number;
+  multipliers: Array<{ leverId: string; value: string; key: Role | "all"; factor: number }>;
+  hours: number;
+  cost: number;
+};
+
+export type MaintenanceProjection = {
+  warrantyWeeks: number;
+  retainerMonthlyPercent: number;
+  monthly: { hours: number; cost: number };
+  totals: Array<{ months: number; hours: number; cost: number }>;
+};
+
+/** Platform and hosting fees implied by the selected options, plus total cost of ownership */
+export type RecurringCosts = {
+  items: Array<{ leverId: string; value: string; monthly: number; yearly: number; perYear: number }>;
+  monthly: number;
+  perYear: number;
+  tco: Array<{ years: number; p50: number; p80: number }>;
+};
+
+export type PhaseTotal = { id: string; hours: number; cost: number };
+export type PaymentMilestone = { id: string; percent: number; due?: string; p50: number; p80: number };
+
 export type EstimateResult = {
   hoursByRole: Record<Role, number>;
   costByRole: Record<Role, number>;
   subtotalHours: number;
   subtotalCost: number;
-  overheads: { pmHours: number; qaHours: number; pmCost: number; qaCost: number };
-  p50: { hours: number; cost: number };
-  p80: { hours: number; cost: number };
+  /** PM/QA totals: percentage of build plus any hours levers put on pm/qa directly */
+  overheads: { pmHours: number; qaHours: number; pmCost: number; qaCost: number; pmPercent: number; qaPercent: number };
+  p50: { hours: number; cost: number } & VatSplit;
+  p80: { hours: number; cost: number } & VatSplit;
+  vat: { included: boolean; percent: number };
+  vatByRole: Record<Role, VatSplit>;
+  /** "fullstack": frontend + backend hours are billed as a single fullstack line */
+  staffing: "specialists" | "fullstack";
+  /** Custom items, listed separately from the role breakdown but included in P50/P80 */
+  customItems: CustomLine[];
+  recurring: RecurringCosts;
+  /** P50 hours and cost per billing phase, in `phases.order` */
+  phases: PhaseTotal[];
+  payments: PaymentMilestone[];
+  maintenance?: MaintenanceProjection;
+  ledger: LedgerEntry[];
   currency: string;
   currencySymbol: string;
+  /** Rates are priced in `base`; every cost above is converted into `currency` at `rate`. */
+  fx: { base: string; baseSymbol: string; rate: number; date?: string };
   debug: {
     countryCode: string;
     hiddenLeverIds: string[];
@@ -77,11 +198,16 @@ export type EstimateResult = {
     userTaxOverride?: { vatIncluded?: boolean; vatPercent?: number };
     preAdjustHours: Record<Role, number>;
     roleAdjust: Partial<Record<Role, number>>;
+    /** Percentages from config rules, before `_overheadOverrides` */
+    overheadDefaults: OverheadPercents;
+    userOverheadOverride?: Partial<OverheadPercents>;
   };
 };
 
-const ROLES: Role[] = ["design", "frontend", "backend", "pm", "qa", "devops", "seo", "content"];
-const BUILD_ROLES: Role[] = ["design", "frontend", "backend", "devops", "seo", "content"];
+const ROLES: Role[] = ["design", "frontend", "backend", "pm", "qa", "devops", "seo", "content", "fullstack"];
+const BUILD_ROLES: Role[] = ["design", "frontend", "backend", "devops", "seo", "content", "fullstack"];
+const RETAINER_PROJECTION_MONTHS = [12, 24, 36];
+const TCO_YEARS = [1, 3];
 
 function cloneZeros(): Record<Role, number> {
   return ROLES.reduce((acc, r) => ((acc[r] = 0), acc), {} as Record<Role, number>);
@@ -96,36 +222,98 @@ function clamp(n: number, min?: number, max?: number) {
 function currencySymbolFor(config: Config, ccy: string) {
   return config.currencies?.[ccy]?.symbol ?? (ccy === "EUR" ? "€" : ccy === "USD" ? "$" : ccy === "GBP" ? "£" : ccy);
 }
+/** Units of `to` per unit of `from`, via the fxToEUR table (undefined when either side is unknown). */
+function fxRateBetween(config: Config, from: string, to: string): number | undefined {
+  if (from === to) return 1;
+  const a = config.currencies?.[from]?.fxToEUR;
+  const b = config.currencies?.[to]?.fxToEUR;
+  if (!a || !b) return undefined;
+  return a / b;
+}
+/** Split an amount into net / VAT / gross. `included` means the amount already contains VAT. */
+function splitVat(amount: number, included: boolean, percent: number, p = 0): VatSplit {
+  const rate = percent / 100;
+  const net = included ? amount / (1 + rate) : amount;
+  const gross = included ? amount : amount * (1 + rate);
+  return { net: round(net, p), vat: round(gross - net, p), gross: round(gross, p) };
+}
+export function evaluateCondition(cond: Condition, selections: Selections): boolean {
+  if ("all" in cond) return cond.all.every((c) => evaluateCondition(c, selections));
+  if ("any" in cond) return cond.any.some((c) => evaluateCondition(c, selections));
+  if ("not" in cond) return !evaluateCondition(cond.not, selections);
+  const v = selections[cond.id];
+  if (cond.equals !== undefined && v !== cond.equals) return false;
+  if (cond.in && !(Array.isArray(v) ? v : [v]).some((x) => cond.in!.includes(x))) return false;
+  if (cond.includes !== undefined && !(Array.isArray(v) && v.includes(cond.includes))) return false;
+  const n = Number(v);
+  if (cond.gt != null && !(n > cond.gt)) return false;
+  if (cond.gte != null && !(n >= cond.gte)) return false;
+  if (cond.lt != null && !(n < cond.lt)) return false;
+  if (cond.lte != null && !(n <= cond.lte)) return false;
+  return true;
+}
 function visibleForLever(lever: Lever, selections: Selections): boolean {
   if (!lever.visibleWhen || lever.visibleWhen.length === 0) return true;
-  return lever.visibleWhen.every((r) => selections[r.id] === r.equals);
+  return lever.visibleWhen.every((r) => evaluateCondition(r, selections));
 }
-function addHours(target: Record<Role, number>, add?: Partial<Record<Role, number>>, factor = 1) {
-  if (!add) return;
-  for (const r of ROLES) {
-    const v = add[r];
-    if (v != null) target[r] += v * factor;
+function isRole(x: string): x is Role {
+  return (ROLES as string[]).includes(x);
+}
+function likelyHours(v: unknown): number {
+  const n = Array.isArray(v) ? Number(v[1]) : Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+/** [optimistic, likely, pessimistic]; single values get a symmetric spread of ± the risk band. */
+function hoursRange(v: HoursValue, riskPct: number): [number, number, number] {
+  if (Array.isArray(v)) {
+    const [o, l, p] = v.map((x) => Number(x) || 0);
+    return [Math.min(o, l), l, Math.max(p, l)];
   }
+  const l = likelyHours(v);
+  return [l * (1 - riskPct), l, l * (1 + riskPct)];
 }
 function applyMultiplierHours(hours: Record<Role, number>, mults: Partial<Record<Role | "all", number>>) {
   const allMul = mults["all"] ?? 1;
   for (const r of ROLES) hours[r] *= (mults[r] ?? 1) * allMul;
 }
-function applyDependencies(config: Config, base: Selections): { selections: Selections; hiddenIds: Set<string> } {
+/** PM/QA percentages from `globalOverheads` and the matching `overheadRules` (no user overrides). */
+export function getOverheadPercents(config: Config, selections: Selections): OverheadPercents {
+  const out: OverheadPercents = { pm: config.globalOverheads.pmPercentOfBuild, qa: config.globalOverheads.qaPercentOfBuild };
+  for (const rule of config.globalOverheads.overheadRules ?? []) {
+    if (!evaluateCondition(rule.if, selections)) continue;
+    for (const k of ["pm", "qa"] as const) {
+      if (rule.set?.[k] != null) out[k] = Number(rule.set[k]);
+      if (rule.add?.[k] != null) out[k] += Number(rule.add[k]);
+    }
+  }
+  return { pm: Math.max(0, round(out.pm, 4)), qa: Math.max(0, round(out.qa, 4)) };
+}
+/** Shared by the engine and the page: run `adjust` rules to a fixed point, then resolve hide/show. */
+export function applyDependencies(config: Config, base: Selections): { selections: Selections; hiddenIds: Set<string> } {
   let selections = { ...base };
-  const hiddenIds = new Set<string>();
   for (let pass = 0; pass < 6; pass++) {
     let changed = false;
     for (const dep of config.dependencies ?? []) {
-      if (selections[dep.if.id] === dep.if.equals) {
-        for (const id of dep.then?.hide ?? []) hiddenIds.add(id);
-        for (const adj of dep.then?.adjust ?? []) {
-          if (selections[adj.id] !== adj.set) { selections = { ...selections, [adj.id]: adj.set }; changed = true; }
-        }
+      if (!evaluateCondition(dep.if, selections)) continue;
+      for (const adj of dep.then?.adjust ?? []) {
+        if (selections[adj.id] !== adj.set) { selections = { ...selections, [adj.id]: adj.set }; changed = true; }
       }
     }
     if (!changed) break;
   }
+
+  const hiddenIds = new Set<string>();
+  const showTargets = new Set<string>();
+  const shown = new Set<string>();
+  for (const dep of config.dependencies ?? []) {
+    const active = evaluateCondition(dep.if, selections);
+    for (const id of dep.then?.show ?? []) {
+      showTargets.add(id);
+      if (active) shown.add(id);
+    }
+    if (active) for (const id of dep.then?.hide ?? []) hiddenIds.add(id);
+  }
+  for (const id of showTargets) if (!shown.has(id)) hiddenIds.add(id);
   return { selections, hiddenIds };
 }
 
@@ -135,142 +323,362 @@ export function getCountryBaseRates(config: Config, countryCode: string): RatesB
   const country = config.countries.find(c => c.code === countryCode) ?? def;
   const out = {} as RatesByRole;
   for (const r of ROLES) out[r] = Number((country.baseRates as any)?.[r] ?? 0);
+  if (!out.fullstack) out.fullstack = Math.max(out.frontend, out.backend);
   return out;
 }
 
-export function computeEstimate(config: Config, rawSelections: Selections): EstimateResult {
-  // Country / currency
-  const defCountry = config.countries[0];
-  const countryCode = String(rawSelections?._country ?? defCountry.code);
-  const country = config.countries.find((c) => c.code === countryCode) ?? defCountry;
-  const currency = country.currency ?? config.currencyDefault;
-  const currencySymbol = currencySymbolFor(config, currency);
+type HourItem = { leverId: string; value: string | number; role: Role; hours: HoursValue; factor: number; note?: string };
 
-  // Seed defaults
-  const seeded: Selections = { _country: country.code, ...rawSelections };
-  for (const lever of config.levers) {
-    if (seeded[lever.id] == null && (lever as any).default != null) seeded[lever.id] = (lever as any).default;
-    if (lever.type === "multiselect" && seeded[lever.id] == null) seeded[lever.id] = [];
+function pushRoleHours(items: HourItem[], leverId: string, value: string | number, add?: RoleHours, factor = 1) {
+  if (!add || factor === 0) return;
+  for (const r of ROLES) {
+    const v = add[r];
+    if (v != null) items.push({ leverId, value, role: r, hours: v, factor });
   }
-  if (seeded._roleAdjust == null) seeded._roleAdjust = {};
-
-  // Dependencies
-  const { selections, hiddenIds } = applyDependencies(config, seeded);
+}
+function pushOptionHours(items: HourItem[], leverId: string, opt: Record<string, any>) {
+  for (const k of Object.keys(opt)) {
+    if (!k.startsWith("hours.")) continue;
+    const role = k.split(".")[1];
+    if (isRole(role)) items.push({ leverId, value: opt.value, role, hours: opt[k], factor: 1 });
+  }
+}
+function pushOtherHours(items: HourItem[], leverId: string, spec?: OtherSpec) {
+  if (!spec?.hours) return;
+  const note = typeof spec.description === "string" ? spec.description.trim() || undefined : undefined;
+  for (const r of BUILD_ROLES) {
+    const v = Number(spec.hours[r] ?? 0);
+    if (isFinite(v) && v > 0) items.push({ leverId, value: OTHER_VALUE, role: r, hours: v, factor: 1, note });
+  }
+}
 
-  // Build hours
-  const hours = cloneZeros();
+/** Every lever contribution as a separate (role, hours × factor) item, before multipliers. */
+function collectHourItems(config: Config, selections: Selections, hiddenIds: Set<string>): HourItem[] {
+  const items: HourItem[] = [];
   for (const lever of config.levers) {
     if (hiddenIds.has(lever.id)) continue;
     if (!visibleForLever(lever, selections)) continue;
     const value = selections[lever.id];
 
     if (lever.type === "number") {
-      const n = clamp(Number(value ?? (lever as any).default ?? 0), (lever as any).min, (lever as any).max);
-      if ((lever as any).hoursPerUnit) addHours(hours, (lever as any).hoursPerUnit, n);
-      if ((lever as any).hoursBase || (lever as any).hoursPerExtraLocale) {
-        addHours(hours, (lever as any).hoursBase, 1);
-        if (n > 1) addHours(hours, (lever as any).hoursPerExtraLocale, n - 1);
+      const n = clamp(Number(value ?? lever.default ?? 0), lever.min, lever.max);
+      if (lever.hoursPerUnit) pushRoleHours(items, lever.id, n, lever.hoursPerUnit, n);
+      if (lever.hoursBase || lever.hoursPerExtraLocale) {
+        pushRoleHours(items, lever.id, n, lever.hoursBase, 1);
+        if (n > 1) pushRoleHours(items, lever.id, n, lever.hoursPerExtraLocale, n - 1);
       }
-      if ((lever as any).hoursPerBatch && (lever as any).hoursPerBatch.batchSize > 0) {
-        const { batchSize, ...roleHours } = (lever as any).hoursPerBatch;
+      if (lever.hoursPerBatch && lever.hoursPerBatch.batchSize > 0) {
+        const { batchSize, ...roleHours } = lever.hoursPerBatch;
         const batches = n > 0 ? Math.ceil(n / batchSize) : 0;
-        addHours(hours, roleHours as Partial<Record<Role, number>>, batches);
+        pushRoleHours(items, lever.id, n, roleHours as RoleHours, batches);
       }
     }
 
     if (lever.type === "select") {
       const opt = lever.options.find((o) => o.value === value) ?? lever.options[0];
-      if (opt) {
-        for (const k of Object.keys(opt)) {
-          if (k.startsWith("hours.")) {
-            const role = k.split(".")[1] as Role;
-            hours[role] += Number((opt as any)[k]) || 0;
-          }
-        }
-      }
+      if (opt) pushOptionHours(items, lever.id, opt);
+      if (opt?.value === OTHER_VALUE) pushOtherHours(items, lever.id, selections._other?.[lever.id]);
     }
 
     if (lever.type === "multiselect") {
       const arr: string[] = Array.isArray(value) ? value : [];
       for (const v of arr) {
         const opt = lever.options.find((o) => o.value === v);
-        if (!opt) continue;
-        for (const k of Object.keys(opt)) {
-          if (k.startsWith("hours.")) {
-            const role = k.split(".")[1] as Role;
-            hours[role] += Number((opt as any)[k]) || 0;
-          }
-        }
+        if (opt) pushOptionHours(items, lever.id, opt);
+        if (opt?.value === OTHER_VALUE) pushOtherHours(items, lever.id, selections._other?.[lever.id]);
       }
     }
   }
+  return items;
+}
+
+type MultiplierSource = LedgerEntry["multipliers"][number];
 
-  // Hours multipliers
+function collectMultipliers(config: Config, selections: Selections, hiddenIds: Set<string>) {
   const multipliers: Partial<Record<Role | "all", number>> = {};
+  const sources: MultiplierSource[] = [];
+  const apply = (leverId: string, opt: Record<string, any>) => {
+    for (const k of Object.keys(opt)) {
+      if (k.startsWith("multiplier.")) {
+        const key = k.split(".")[1] as Role | "all";
+        const val = Number(opt[k]);
+        const factor = isFinite(val) ? val : 1;
+        multipliers[key] = (multipliers[key] ?? 1) * factor;
+        if (factor !== 1) sources.push({ leverId, value: opt.value, key, factor });
+      }
+    }
+  };
   for (const lever of config.levers) {
     if (hiddenIds.has(lever.id)) continue;
     if (!visibleForLever(lever, selections)) continue;
     if (lever.type === "select") {
       const opt = lever.options.find((o) => o.value === selections[lever.id]);
-      if (opt) {
-        for (const k of Object.keys(opt)) {
-          if (k.startsWith("multiplier.")) {
-            const key = k.split(".")[1] as Role | "all";
-            const val = Number((opt as any)[k]);
-            multipliers[key] = (multipliers[key] ?? 1) * (isFinite(val) ? val : 1);
-          }
-        }
+      if (opt) apply(lever.id, opt);
+    }
+    if (lever.type === "multiselect") {
+      const arr: string[] = Array.isArray(selections[lever.id]) ? selections[lever.id] : [];
+      for (const v of arr) {
+        const opt = lever.options.find((o) => o.value === v);
+        if (opt) apply(lever.id, opt);
       }
     }
+  }
+  return { multipliers, sources };
+}
+
+type RecurringItem = { leverId: string; value: string; monthly: number; yearly: number };
+
+function collectRecurring(config: Config, selections: Selections, hiddenIds: Set<string>): RecurringItem[] {
+  const items: RecurringItem[] = [];
+  const add = (leverId: string, opt: Record<string, any>) => {
+    const monthly = Number(opt["recurring.monthly"] ?? 0) || 0;
+    const yearly = Number(opt["recurring.yearly"] ?? 0) || 0;
+    if (monthly > 0 || yearly > 0) items.push({ leverId, value: opt.value, monthly, yearly });
+  };
+  for (const lever of config.levers) {
+    if (hiddenIds.has(lever.id)) continue;
+    if (!visibleForLever(lever, selections)) continue;
+    if (lever.type === "select") {
+      const opt = lever.options.find((o) => o.value === selections[lever.id]);
+      if (opt) add(lever.id, opt);
+    }
     if (lever.type === "multiselect") {
       const arr: string[] = Array.isArray(selections[lever.id]) ? selections[lever.id] : [];
       for (const v of arr) {
         const opt = lever.options.find((o) => o.value === v);
-        if (!opt) continue;
-        for (const k of Object.keys(opt)) {
-          if (k.startsWith("multiplier.")) {
-            const key = k.split(".")[1] as Role | "all";
-            const val = Number((opt as any)[k]);
-            multipliers[key] = (multipliers[key] ?? 1) * (isFinite(val) ? val : 1);
-          }
-        }
+        if (opt) add(lever.id, opt);
       }
     }
   }
-  if (Object.keys(multipliers).length) applyMultiplierHours(hours, multipliers);
+  return items;
+}
+
+type PreparedEstimate = {
+  country: Country;
+  currency: string;
+  currencySymbol: string;
+  baseCurrency: string;
+  fxRate: number;
+  selections: Selections;
+  hiddenIds: Set<string>;
+  items: HourItem[];
+  multipliers: Partial<Record<Role | "all", number>>;
+  multiplierSources: MultiplierSource[];
+  roleAdjust: Partial<Record<Role, number>>;
+  staffing: "specialists" | "fullstack";
+  customItems: CustomItem[];
+  recurringItems: RecurringItem[];
+  overheadDefaults: OverheadPercents;
+  userOverheadOverride?: Partial<OverheadPercents>;
+  overheadPercents: OverheadPercents;
+  mergedRates: RatesByRole;
+  userRatesForCountry?: Partial<RatesByRole>;
+  /** Hourly rate converted into the display currency */
+  rateFor: (r: Role) => number;
+  riskPct: number;
+};
+
+function billedAsFor(staffing: PreparedEstimate["staffing"], r: Role): Role {
+  return staffing === "fullstack" && (r === "frontend" || r === "backend") ? "fullstack" : r;
+}
+
+function readCustomItems(raw: unknown): CustomItem[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((it): it is CustomItem => {
+    if (!it || typeof it !== "object" || typeof it.id !== "string" || typeof it.label !== "string") return false;
+    if (it.kind === "fixed") return Number(it.amount) > 0;
+    return it.kind === "hours" && isRole(it.role) && BUILD_ROLES.includes(it.role) && Number(it.hours) > 0;
+  });
+}
+
+/** Cost of a custom item in the display currency (fixed amounts are entered in the rate currency) */
+function customItemCost(prep: PreparedEstimate, it: CustomItem) {
+  return it.kind === "fixed" ? Number(it.amount) * prep.fxRate : Number(it.hours) * prep.rateFor(billedAsFor(prep.staffing, it.role!));
+}
+
+/** A priced line for the phase split; fixed amounts have no role */
+type PhaseLine = { source: string; role?: Role; hours: number; cost: number };
+
+/** Sum priced lines per phase; overheads without a role phase and fixed amounts are spread pro rata. */
+function phaseTotals(phases: PhaseConfig | undefined, lines: PhaseLine[]): PhaseTotal[] {
+  if (!phases) return [];
+  const totals = new Map(phases.order.map((id) => [id, { hours: 0, cost: 0 }]));
+  const spread: PhaseLine[] = [];
+  for (const line of lines) {
+    const byLever = phases.levers?.[line.source];
+    const phase = !line.role ? undefined
+      : (typeof byLever === "string" ? byLever : byLever?.[line.role])
+        ?? phases.roles?.[line.role]
+        ?? (line.source === "_overhead" ? undefined : phases.default);
+    const t = phase ? totals.get(phase) : undefined;
+    if (!t) { spread.push(line); continue; }
+    t.hours += line.hours;
+    t.cost += line.cost;
+  }
+  const baseHours = [...totals.values()].reduce((s, t) => s + t.hours, 0);
+  const baseCost = [...totals.values()].reduce((s, t) => s + t.cost, 0);
+  const shares = [...totals.values()].map((t) => ({ h: baseHours > 0 ? t.hours / baseHours : 0, c: baseCost > 0 ? t.cost / baseCost : 0 }));
+  for (const line of spread) {
+    [...totals.values()].forEach((t, i) => { t.hours += line.hours * shares[i].h; t.cost += line.cost * shares[i].c; });
+  }
+  return [...totals.entries()].map(([id, t]) => ({ id, ...t }));
+}
+
+/** Resolve country, defaults, dependencies, lever items, multipliers and rates. */
+function prepareEstimate(config: Config, rawSelections: Selections): PreparedEstimate {
+  // Country / currency
+  const defCountry = config.countries[0];
+  const countryCode = String(rawSelections?._country ?? defCountry.code);
+  const country = config.countries.find((c) => c.code === countryCode) ?? defCountry;
+  const baseCurrency = country.currency ?? config.currencyDefault;
+
+  // Seed defaults
+  const seeded: Selections = { _country: country.code, ...rawSelections };
+  for (const lever of config.levers) {
+    if (seeded[lever.id] == null && (lever as any).default != null) seeded[lever.id] = (lever as any).default;
+    if (lever.type === "multiselect" && seeded[lever.id] == null) seeded[lever.id] = [];
+  }
+  if (seeded._roleAdjust == null) seeded._roleAdjust = {};
+
+  // Dependencies
+  const { selections, hiddenIds } = applyDependencies(config, seeded);
+
+  // Display currency (falls back to the rate currency when it has no FX entry)
+  const wanted = String(selections._displayCurrency ?? baseCurrency);
+  const wantedRate = fxRateBetween(config, baseCurrency, wanted);
+  const currency = wantedRate != null ? wanted : baseCurrency;
+  const fxRate = wantedRate ?? 1;
+  const currencySymbol = currencySymbolFor(config, currency);
+
+  // Rates (with user overrides)
+  const userRatesForCountry: Partial<RatesByRole> | undefined = selections._rateOverrides?.[country.code];
+  const mergedRates: RatesByRole = { ...getCountryBaseRates(config, country.code), ...(userRatesForCountry ?? {}) };
+
+  const riskLevel = (selections["risk_level"] ?? "medium") as "low" | "medium" | "high";
+  const riskPct   = config.globalOverheads.contingencyRiskBands[riskLevel] ?? 0.12;
+
+  const { multipliers, sources: multiplierSources } = collectMultipliers(config, selections, hiddenIds);
+
+  // PM/QA percentages (user override wins over the config rules)
+  const overheadDefaults = getOverheadPercents(config, selections);
+  const userOverheadOverride: Partial<OverheadPercents> | undefined = selections._overheadOverrides;
+  const overheadPercents = { ...overheadDefaults };
+  for (const k of ["pm", "qa"] as const) {
+    const v = Number(userOverheadOverride?.[k]);
+    if (userOverheadOverride?.[k] != null && Number.isFinite(v) && v >= 0) overheadPercents[k] = v;
+  }
+
+  return {
+    country, currency, currencySymbol, baseCurrency, fxRate, selections, hiddenIds,
+    items: collectHourItems(config, selections, hiddenIds),
+    multipliers, multiplierSources,
+    roleAdjust: selections._roleAdjust ?? {},
+    staffing: selections["team_composition"] === "fullstack" ? "fullstack" : "specialists",
+    customItems: readCustomItems(selections._customItems),
+    recurringItems: collectRecurring(config, selections, hiddenIds),
+    overheadDefaults, userOverheadOverride, overheadPercents,
+    mergedRates, userRatesForCountry, riskPct,
+    rateFor: (r: Role) => (mergedRates[r] ?? 0) * fxRate
+  };
+}
+
+type BuildTotals = {
+  hours: Record<Role, number>;
+  preAdjust: Record<Role, number>;
+  subtotalHours: number;
+  subtotalCost: number;
+  pmHours: number;
+  qaHours: number;
+  pmCost: number;
+  qaCost: number;
+  p50Hours: number;
+  p50Cost: number;
+  /** Custom items added at face value: part of P50, outside overhead and contingency */
+  flatHours: number;
+  flatCost: number;
+};
+
+/** From summed lever hours: multipliers, manual deltas, build subtotal and PM/QA overheads. */
+function buildTotals(config: Config, prep: PreparedEstimate, leverHours: Record<Role, number>): BuildTotals {
+  const hours = { ...leverHours };
+  if (Object.keys(prep.multipliers).length) applyMultiplierHours(hours, prep.multipliers);
 
   const preAdjust = { ...hours };
 
   // Manual role deltas
-  const roleAdjust: Partial<Record<Role, number>> = selections._roleAdjust ?? {};
   for (const r of BUILD_ROLES) {
-    const delta = Number(roleAdjust[r] ?? 0);
+    const delta = Number(prep.roleAdjust[r] ?? 0);
     if (!Number.isNaN(delta) && delta !== 0) hours[r] += delta;
   }
 
-  // Rates (with user overrides)
-  const userRatesForCountry: Partial<RatesByRole> | undefined = selections._rateOverrides?.[country.code];
-  const mergedRates: RatesByRole = { ...country.baseRates, ...(userRatesForCountry ?? {}) };
-  const rateFor = (r: Role) => (mergedRates[r] ?? 0);
+  // Fullstack staffing: one developer covers frontend + backend at the fullstack rate
+  if (prep.staffing === "fullstack") {
+    hours.fullstack += hours.frontend + hours.backend;
+    hours.frontend = 0;
+    hours.backend = 0;
+  }
+
+  const rateFor = prep.rateFor;
+
+  // Custom items: loaded ones join the build subtotal, the rest is added at face value
+  let loadedHours = 0, loadedCost = 0, loadedFixed = 0, flatHours = 0, flatCost = 0;
+  for (const it of prep.customItems) {
+    const h = it.kind === "hours" ? Number(it.hours) : 0;
+    const c = customItemCost(prep, it);
+    if (!it.loaded) { flatHours += h; flatCost += c; }
+    else if (it.kind === "fixed") loadedFixed += c;
+    else { loadedHours += h; loadedCost += c; }
+  }
 
   // Subtotals
-  const subtotalHours = BUILD_ROLES.reduce((s, r) => s + (hours[r] || 0), 0);
-  const subtotalCost  = BUILD_ROLES.reduce((s, r) => s + (hours[r] || 0) * rateFor(r), 0);
+  const subtotalHours = BUILD_ROLES.reduce((s, r) => s + (hours[r] || 0), 0) + loadedHours;
+  const subtotalCost  = BUILD_ROLES.reduce((s, r) => s + (hours[r] || 0) * rateFor(r), 0) + loadedCost + loadedFixed;
 
-  // Overheads
-  const pmHours = subtotalHours * config.globalOverheads.pmPercentOfBuild;
-  const qaHours = subtotalHours * config.globalOverheads.qaPercentOfBuild;
-  const pmCost  = pmHours * rateFor("pm");
-  const qaCost  = qaHours * rateFor("qa");
+  // Overheads on top of hours levers put on pm/qa directly (loaded fixed amounts carry the same share as handling cost)
+  const { pm: pmPct, qa: qaPct } = prep.overheadPercents;
+  const pmHours = subtotalHours * pmPct + (hours.pm || 0);
+  const qaHours = subtotalHours * qaPct + (hours.qa || 0);
+  const pmCost  = pmHours * rateFor("pm") + loadedFixed * pmPct;
+  const qaCost  = qaHours * rateFor("qa") + loadedFixed * qaPct;
+
+  return {
+    hours, preAdjust, subtotalHours, subtotalCost, pmHours, qaHours, pmCost, qaCost,
+    p50Hours: subtotalHours + pmHours + qaHours + flatHours,
+    p50Cost: subtotalCost + pmCost + qaCost + flatCost,
+    flatHours, flatCost
+  };
+}
 
-  // Bands
-  const p50HoursRaw = subtotalHours + pmHours + qaHours;
-  const p50CostRaw  = subtotalCost + pmCost + qaCost;
+export type EstimateOptions = {
+  /**
+   * false skips the simulation: P80 is then the project-wide factor's own P80 (1 + risk band) on the loaded build,
+   * without the per-item ranges. For callers that compare many estimates (sensitivity, budget search, scenarios).
+   */
+  simulate?: boolean;
+};
 
-  const riskLevel = (selections["risk_level"] ?? "medium") as "low" | "medium" | "high";
-  const riskPct   = config.globalOverheads.contingencyRiskBands[riskLevel] ?? 0.12;
-  const p80HoursRaw = p50HoursRaw * (1 + riskPct);
-  const p80CostRaw  = p50CostRaw  * (1 + riskPct);
+export function computeEstimate(config: Config, rawSelections: Selections, opts: EstimateOptions = {}): EstimateResult {
+  const prep = prepareEstimate(config, rawSelections);
+  const { country, currency, currencySymbol, selections, hiddenIds, multipliers, roleAdjust, mergedRates, userRatesForCountry, rateFor } = prep;
+
+  // Build hours (likely values)
+  const leverHours = cloneZeros();
+  for (const it of prep.items) leverHours[it.role] += likelyHours(it.hours) * it.factor;
+
+  const { hours, preAdjust, subtotalHours, subtotalCost, pmHours, qaHours, pmCost, qaCost, p50Hours: p50HoursRaw, p50Cost: p50CostRaw, flatHours, flatCost } =
+    buildTotals(config, prep, leverHours);
+
+  // P80 from the same seeded simulation as simulateEstimate's defaults, so the page, PDF and API quote one figure;
+  // the quick variant is within about 1% of it
+  let p80HoursRaw: number, p80CostRaw: number;
+  if (opts.simulate === false) {
+    p80HoursRaw = (p50HoursRaw - flatHours) * (1 + prep.riskPct) + flatHours;
+    p80CostRaw  = (p50CostRaw - flatCost) * (1 + prep.riskPct) + flatCost;
+  } else {
+    const samples = sampleTotals(config, prep, DEFAULT_ITERATIONS, DEFAULT_SEED);
+    p80HoursRaw = percentileOf(samples.hours, 80);
+    p80CostRaw  = percentileOf(samples.cost, 80);
+  }
 
   // Rounding
   const hP = config.outputConfig?.rounding?.hours ?? 1;
@@ -288,17 +696,137 @@ export function computeEstimate(config: Config, rawSelections: Selections): Esti
     return acc;
   }, {} as Record<Role, number>);
 
+  // VAT (user override wins over the country default)
   const userTaxOverride = selections._taxOverrides?.[country.code];
+  const vatIncluded = Boolean(userTaxOverride?.vatIncluded ?? country.tax?.vatIncluded ?? false);
+  const vatPercentRaw = Number(userTaxOverride?.vatPercent ?? country.tax?.vatPercent ?? 0);
+  const vatPercent = Number.isFinite(vatPercentRaw) && vatPercentRaw > 0 ? vatPercentRaw : 0;
+  const vatFor = (amount: number) => splitVat(amount, vatIncluded, vatPercent, cP);
+
+  const vatByRole = ROLES.reduce((acc, r) => {
+    const baseCost = r === "pm" ? pmCost : r === "qa" ? qaCost : (hours[r] || 0) * rateFor(r);
+    acc[r] = vatFor(baseCost);
+    return acc;
+  }, {} as Record<Role, VatSplit>);
+
+  // Ledger: every hour traced back to its lever, multipliers and billed rate
+  const billedAs = (r: Role): Role => billedAsFor(prep.staffing, r);
+  const ledger: LedgerEntry[] = [];
+  const phaseLines: PhaseLine[] = [];
+  for (const it of prep.items) {
+    const baseHours = likelyHours(it.hours) * it.factor;
+    const applied = prep.multiplierSources.filter((m) => m.key === it.role || m.key === "all");
+    const h = applied.reduce((acc, m) => acc * m.factor, baseHours);
+    phaseLines.push({ source: it.leverId, role: it.role, hours: h, cost: h * rateFor(billedAs(it.role)) });
+    ledger.push({
+      source: it.leverId, value: it.value, role: it.role, billedAs: billedAs(it.role), note: it.note,
+      baseHours: round(baseHours, hP), multipliers: applied, hours: round(h, hP), cost: round(h * rateFor(billedAs(it.role)), cP)
+    });
+  }
+  for (const r of BUILD_ROLES) {
+    const delta = Number(roleAdjust[r] ?? 0);
+    if (Number.isNaN(delta) || delta === 0) continue;
+    phaseLines.push({ source: "_roleAdjust", role: r, hours: delta, cost: delta * rateFor(billedAs(r)) });
+    ledger.push({ source: "_roleAdjust", role: r, billedAs: billedAs(r), baseHours: delta, multipliers: [], hours: delta, cost: round(delta * rateFor(billedAs(r)), cP) });
+  }
+  for (const r of ["pm", "qa"] as const) {
+    const leverPart = hours[r] || 0;
+    const total = r === "pm" ? { h: pmHours, c: pmCost } : { h: qaHours, c: qaCost };
+    phaseLines.push({ source: "_overhead", role: r, hours: total.h - leverPart, cost: total.c - leverPart * rateFor(r) });
+    ledger.push({
+      source: "_overhead", role: r, billedAs: r, baseHours: round(subtotalHours, hP), multipliers: [],
+      hours: round(total.h - leverPart, hP), cost: round(total.c - leverPart * rateFor(r), cP)
+    });
+  }
+
+  const customItems: CustomLine[] = prep.customItems.map((it) => ({
+    id: it.id,
+    label: it.label,
+    kind: it.kind,
+    role: it.kind === "hours" ? it.role : undefined,
+    billedAs: it.kind === "hours" ? billedAs(it.role!) : undefined,
+    loaded: Boolean(it.loaded),
+    hours: it.kind === "hours" ? round(Number(it.hours), hP) : 0,
+    cost: round(customItemCost(prep, it), cP)
+  }));
+
+  // Billing phases and payment milestones
+  for (const it of prep.customItems) {
+    const h = it.kind === "hours" ? Number(it.hours) : 0;
+    phaseLines.push({ source: "_custom", role: it.kind === "hours" ? it.role : undefined, hours: h, cost: customItemCost(prep, it) });
+  }
+  const phases = phaseTotals(config.phases, phaseLines).map((p) => ({ id: p.id, hours: round(p.hours, hP), cost: round(p.cost, cP) }));
+  const milestones = config.phases?.payments ?? [];
+  // Each milestone is the rounded cumulative share minus what was billed before, so the rows add up exactly
+  let cumulative = 0;
+  const payments: PaymentMilestone[] = milestones.map((m) => {
+    const from = cumulative;
+    cumulative += m.percent;
+    const share = (total: number) => round(total * cumulative, cP) - round(total * from, cP);
+    return { id: m.id, percent: m.percent, due: m.due, p50: share(p50CostRaw), p80: share(p80CostRaw) };
+  });
+
+  // Recurring platform/hosting fees, converted like rates; TCO = build + years of fees
+  const recurringFx = fxRateBetween(config, config.recurringCurrency ?? prep.baseCurrency, currency) ?? 1;
+  const recurringItems = prep.recurringItems.map((it) => ({
+    ...it,
+    monthly: round(it.monthly * recurringFx, cP),
+    yearly: round(it.yearly * recurringFx, cP),
+    perYear: round((it.monthly * 12 + it.yearly) * recurringFx, cP)
+  }));
+  const perYearRaw = prep.recurringItems.reduce((s, it) => s + (it.monthly * 12 + it.yearly) * recurringFx, 0);
+  const recurring: RecurringCosts = {
+    items: recurringItems,
+    monthly: round(perYearRaw / 12, cP),
+    perYear: round(perYearRaw, cP),
+    tco: TCO_YEARS.map((years) => ({
+      years,
+      p50: round(p50CostRaw + perYearRaw * years, cP),
+      p80: round(p80CostRaw + perYearRaw * years, cP)
+    }))
+  };
+
+  // Post-launch: warranty + monthly retainer as a share of the P50 build
+  const maint = config.globalOverheads.maintenance;
+  let maintenance: MaintenanceProjection | undefined;
+  if (maint) {
+    const pct = Number(maint.retainerMonthlyPercent) || 0;
+    const monthlyHours = p50HoursRaw * pct;
+    const monthlyCost  = p50CostRaw * pct;
+    maintenance = {
+      warrantyWeeks: Number(maint.warrantyWeeks) || 0,
+      retainerMonthlyPercent: pct,
+      monthly: { hours: round(monthlyHours, hP), cost: round(monthlyCost, cP) },
+      totals: RETAINER_PROJECTION_MONTHS.map((months) => ({
+        months,
+        hours: round(monthlyHours * months, hP),
+        cost: round(monthlyCost * months, cP)
+      }))
+    };
+  }
 
   return {
     hoursByRole: hoursByRoleRounded,
     costByRole:  costByRoleRounded,
     subtotalHours: round(subtotalHours, hP),
     subtotalCost:  round(subtotalCost, cP),
-    overheads: { pmHours: round(pmHours, hP), qaHours: round(qaHours, hP), pmCost: round(pmCost, cP), qaCost: round(qaCost, cP) },
-    p50: { hours: round(p50HoursRaw, hP), cost: round(p50CostRaw, cP) },
-    p80: { hours: round(p80HoursRaw, hP), cost: round(p80CostRaw, cP) },
+    overheads: {
+      pmHours: round(pmHours, hP), qaHours: round(qaHours, hP), pmCost: round(pmCost, cP), qaCost: round(qaCost, cP),
+      pmPercent: prep.overheadPercents.pm, qaPercent: prep.overheadPercents.qa
+    },
+    p50: { hours: round(p50HoursRaw, hP), cost: round(p50CostRaw, cP), ...vatFor(p50CostRaw) },
+    p80: { hours: round(p80HoursRaw, hP), cost: round(p80CostRaw, cP), ...vatFor(p80CostRaw) },
+    vat: { included: vatIncluded, percent: vatPercent },
+    vatByRole,
+    staffing: prep.staffing,
+    customItems,
+    recurring,
+    phases,
+    payments,
+    maintenance,
+    ledger,
     currency, currencySymbol,
+    fx: { base: prep.baseCurrency, baseSymbol: currencySymbolFor(config, prep.baseCurrency), rate: prep.fxRate, date: config.fxDate },
     debug: {
       countryCode: country.code,
       hiddenLeverIds: [...hiddenIds],
@@ -307,35 +835,174 @@ export function computeEstimate(config: Config, rawSelections: Selections): Esti
       userRateOverride: userRatesForCountry,
       userTaxOverride,
       preAdjustHours: preAdjust,
-      roleAdjust
+      roleAdjust,
+      overheadDefaults: prep.overheadDefaults,
+      userOverheadOverride: prep.userOverheadOverride
     }
   };
 }
 
+
+/* ---------- simulation ---------- */
+
+export type SimulationOptions = { iterations?: number; seed?: number; percentiles?: number[]; bins?: number };
+
+export type SimulationResult = {
+  iterations: number;
+  seed: number;
+  percentiles: Record<string, { hours: number; cost: number }>;
+  histogram: Array<{ from: number; to: number; count: number }>;
+  currency: string;
+  currencySymbol: string;
+};
+
+/** mulberry32: small seeded PRNG so the same selections always yield the same bands */
+function seededRandom(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+/** The first `count` draws of a seed; the stream is kept because computeEstimate replays it on every call */
+const uniformCache = new Map<number, Float64Array>();
+function uniforms(seed: number, count: number): Float64Array {
+  const cached = uniformCache.get(seed);
+  if (cached && cached.length >= count) return cached;
+  const rand = seededRandom(seed);
+  const out = new Float64Array(Math.max(count, (cached?.length ?? 0) * 2));
+  for (let i = 0; i < out.length; i++) out[i] = rand();
+  if (seed === DEFAULT_SEED) uniformCache.set(seed, out);
+  return out;
+}
+function sampleTriangular(u: number, [a, m, b]: [number, number, number]) {
+  if (b <= a) return m;
+  const f = (m - a) / (b - a);
+  return u < f ? a + Math.sqrt(u * (b - a) * (m - a)) : b - Math.sqrt((1 - u) * (b - a) * (b - m));
+}
+function percentileOf(sorted: ArrayLike<number>, p: number) {
+  if (!sorted.length) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[idx];
+}
+
+const DEFAULT_ITERATIONS = 2000;
+const DEFAULT_SEED = 1;
+
+/** Spread of the project-wide factor; its own P80 is 1 + riskPct, the multiplier P80 used before the simulation */
+function projectFactorRange(riskPct: number): [number, number, number] {
+  const s = riskPct / (1 - Math.sqrt(0.4));
+  return [Math.max(0, 1 - s), 1, 1 + s];
+}
+
+/**
+ * Sorted P50-style totals (hours, cost) per iteration. Each lever item is drawn from its own range and the
+ * whole build is scaled by one project-wide factor from the risk level; unloaded custom items stay flat.
+ * buildTotals is affine in the lever hours, so it runs once per role instead of once per iteration. The
+ * samples are shifted so their median is the likely-hours P50: the bands are spread around the quoted figure.
+ */
+function sampleTotals(config: Config, prep: PreparedEstimate, iterations: number, seed: number) {
+  const base = buildTotals(config, prep, cloneZeros());
+  const perRole = {} as Record<Role, { hours: number; cost: number }>;
+  for (const r of ROLES) {
+    const unit = cloneZeros();
+    unit[r] = 1;
+    const t = buildTotals(config, prep, unit);
+    perRole[r] = { hours: t.p50Hours - base.p50Hours, cost: t.p50Cost - base.p50Cost };
+  }
+  const likely = cloneZeros();
+  for (const it of prep.items) likely[it.role] += likelyHours(it.hours) * it.factor;
+  const point = buildTotals(config, prep, likely);
+
+  // items that cannot vary are folded into the constant part; the rest go into flat arrays for the hot loop
+  let fixedHours = base.p50Hours - base.flatHours, fixedCost = base.p50Cost - base.flatCost;
+  const lo: number[] = [], mode: number[] = [], hi: number[] = [], wH: number[] = [], wC: number[] = [];
+  for (const it of prep.items) {
+    const [a, m, b] = hoursRange(it.hours, prep.riskPct);
+    const w = perRole[it.role];
+    if (b <= a) { fixedHours += m * it.factor * w.hours; fixedCost += m * it.factor * w.cost; continue; }
+    lo.push(a); mode.push(m); hi.push(b); wH.push(it.factor * w.hours); wC.push(it.factor * w.cost);
+  }
+  const project = projectFactorRange(prep.riskPct);
+  const u = uniforms(seed, iterations * (lo.length + 1));
+  let k = 0;
+  const hours = new Float64Array(iterations);
+  const cost = new Float64Array(iterations);
+  for (let i = 0; i < iterations; i++) {
+    const f = sampleTriangular(u[k++], project);
+    let h = fixedHours, c = fixedCost;
+    for (let j = 0; j < lo.length; j++) {
+      // sampleTriangular inlined: this loop runs iterations × items times on every computeEstimate
+      const a = lo[j], m = mode[j], b = hi[j], r = u[k++];
+      const x = r * (b - a) < m - a ? a + Math.sqrt(r * (b - a) * (m - a)) : b - Math.sqrt((1 - r) * (b - a) * (b - m));
+      h += x * wH[j];
+      c += x * wC[j];
+    }
+    hours[i] = base.flatHours + f * h;
+    cost[i] = base.flatCost + f * c;
+  }
+  const anchor = (xs: Float64Array, target: number) => {
+    xs.sort();
+    const shift = target - percentileOf(xs, 50);
+    for (let i = 0; i < xs.length; i++) xs[i] += shift;
+    return xs;
+  };
+  return { hours: anchor(hours, point.p50Hours), cost: anchor(cost, point.p50Cost) };
+}
+
+/**
+ * Monte Carlo estimate: each lever item is drawn from a triangular distribution over its
+ * [optimistic, likely, pessimistic] hours (single values are spread by the risk band), scaled by a
+ * project-wide factor. P50 matches computeEstimate's P50 and, with the default seed and iterations, P80 its P80.
+ */
+export function simulateEstimate(config: Config, rawSelections: Selections, opts: SimulationOptions = {}): SimulationResult {
+  const prep = prepareEstimate(config, rawSelections);
+  const iterations = Math.max(1, Math.floor(opts.iterations ?? DEFAULT_ITERATIONS));
+  const seed = opts.seed ?? DEFAULT_SEED;
+  const bins = Math.max(1, Math.floor(opts.bins ?? 20));
+  const fromConfig = (config.outputConfig?.showBands ?? []).map((b) => Number(String(b).slice(1))).filter((n) => Number.isFinite(n));
+  const percentiles = opts.percentiles ?? (fromConfig.length ? fromConfig : [10, 50, 80, 95]);
+
+  const { hours: hoursSamples, cost: costSamples } = sampleTotals(config, prep, iterations, seed);
+
+  const hP = config.outputConfig?.rounding?.hours ?? 1;
+  const cP = config.outputConfig?.rounding?.currency ?? 0;
+
+  const out: SimulationResult["percentiles"] = {};
+  for (const p of percentiles) {
+    out[`P${p}`] = { hours: round(percentileOf(hoursSamples, p), hP), cost: round(percentileOf(costSamples, p), cP) };
+  }
+
+  const min = costSamples[0];
+  const max = costSamples[costSamples.length - 1];
+  const width = (max - min) / bins || 1;
+  const histogram = Array.from({ length: bins }, (_, i) => ({ from: round(min + i * width, cP), to: round(min + (i + 1) * width, cP), count: 0 }));
+  for (const c of costSamples) histogram[Math.min(bins - 1, Math.floor((c - min) / width))].count++;
+
+  return { iterations, seed, percentiles: out, histogram, currency: prep.currency, currencySymbol: prep.currencySymbol };
+}
+
 /* ---------- UI helpers ---------- */
 
-export function visibleLeverIdSet(config: Config, rawSelections: Selections): Set<string> {
+/** Selections with lever defaults filled in and dependencies applied, plus the ids they leave visible. */
+export function resolveSelections(config: Config, rawSelections: Selections): { selections: Selections; visibleIds: Set<string> } {
   const seeded: Selections = { ...rawSelections };
   for (const l of config.levers) {
     if (seeded[l.id] == null && (l as any).default != null) seeded[l.id] = (l as any).default;
     if (l.type === "multiselect" && seeded[l.id] == null) seeded[l.id] = [];
   }
-  const { selections, hiddenIds } = (function applyDeps(config: Config, base: Selections) {
-    let s = { ...base }; const hid = new Set<string>();
-    for (let pass = 0; pass < 6; pass++) {
-      let changed = false;
-      for (const dep of config.dependencies ?? []) {
-        if (s[dep.if.id] === dep.if.equals) {
-          for (const id of dep.then?.hide ?? []) hid.add(id);
-          for (const adj of dep.then?.adjust ?? []) {
-            if (s[adj.id] !== adj.set) { s = { ...s, [adj.id]: adj.set }; changed = true; }
-          }
-        }
-      }
-      if (!changed) break;
-    }
-    return { selections: s, hiddenIds: hid };
-  })(config, seeded);
+  const { selections, hiddenIds } = applyDependencies(config, seeded);
+  return { selections, visibleIds: visibleIdsFor(config, selections, hiddenIds) };
+}
+
+export function visibleLeverIdSet(config: Config, rawSelections: Selections): Set<string> {
+  return resolveSelections(config, rawSelections).visibleIds;
+}
+
+function visibleIdsFor(config: Config, selections: Selections, hiddenIds: Set<string>): Set<string> {
   const visible = new Set<string>();
   for (const lever of config.levers) {
     if (hiddenIds.has(lever.id)) continue;
@@ -0,0 +1,68 @@
+// Undo/redo history for the calculator: entries record the selections before/after and a readable diff.
+
+import type { Selections } from "@/lib/estimate";
+
+export type HistoryEntry = { before: Selections; after: Selections; changes: string[]; at: number };
+
+export type History = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+export const HISTORY_LIMIT = 50;
+/** Changes closer together than this (typing, dependency adjustments) collapse into one entry */
+const COALESCE_MS = 600;
+
+function formatValue(v: unknown): string {
+  if (v == null) return "—";
+  if (Array.isArray(v)) return v.length ? v.join(", ") : "—";
+  if (typeof v === "object") return "…";
+  return String(v);
+}
+
+/** e.g. ["pages_unique 4 → 8", "integrations +crm", "_roleAdjust changed"] */
+export function describeChanges(prev: Selections, next: Selections): string[] {
+  const out: string[] = [];
+  for (const key of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    const a = prev[key];
+    const b = next[key];
+    if (JSON.stringify(a ?? null) === JSON.stringify(b ?? null)) continue;
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const added = b.filter((x) => !a.includes(x)).map((x) => `+${x}`);
+      const removed = a.filter((x) => !b.includes(x)).map((x) => `−${x}`);
+      out.push(`${key} ${[...added, ...removed].join(" ")}`);
+    } else if ((a && typeof a === "object") || (b && typeof b === "object")) {
+      out.push(`${key} changed`);
+    } else {
+      out.push(`${key} ${formatValue(a)} → ${formatValue(b)}`);
+    }
+  }
+  return out;
+}
+
+/** Record a change; a new change clears the redo stack. */
+export function recordChange(history: History, before: Selections, after: Selections, now = Date.now()): History {
+  const top = history.past[history.past.length - 1];
+  if (top && now - top.at < COALESCE_MS) {
+    const changes = describeChanges(top.before, after);
+    const rest = history.past.slice(0, -1);
+    return { past: changes.length ? [...rest, { before: top.before, after, changes, at: now }] : rest, future: [] };
+  }
+  const changes = describeChanges(before, after);
+  if (!changes.length) return history;
+  return { past: [...history.past, { before, after, changes, at: now }].slice(-HISTORY_LIMIT), future: [] };
+}
+
+/** Move `steps` entries from past to future; returns the selections to restore. */
+export function undo(history: History, steps = 1): { history: History; selections?: Selections } {
+  const n = Math.min(steps, history.past.length);
+  if (n <= 0) return { history };
+  const moved = history.past.slice(history.past.length - n);
+  return {
+    history: { past: history.past.slice(0, history.past.length - n), future: [...moved, ...history.future] },
+    selections: moved[0].before,
+  };
+}
+
+export function redo(history: History): { history: History; selections?: Selections } {
+  const [next, ...rest] = history.future;
+  if (!next) return { history };
+  return { history: { past: [...history.past, next], future: rest }, selections: next.after };
+}
@@ -0,0 +1,112 @@
+// Localized labels for estimate results and the lever catalog served outside the page (API routes).
+
+import type { EstimateResult, LedgerEntry, Config, Selections } from "@/lib/estimate";
+import { resolveSelections } from "@/lib/estimate";
+import { tGroup, tLever, tOptionLabel, tPresetLabel, tUI, type Lang } from "@/lib/i18n";
+
+export type LocalizedInput = { id: string; label: string; value: unknown; display: string };
+
+export type LocalizedEstimate = Omit<EstimateResult, "ledger" | "phases" | "payments" | "recurring"> & {
+  ledger: Array<LedgerEntry & { label: string }>;
+  phases: Array<EstimateResult["phases"][number] & { label: string }>;
+  payments: Array<EstimateResult["payments"][number] & { label: string }>;
+  recurring: Omit<EstimateResult["recurring"], "items"> & {
+    items: Array<EstimateResult["recurring"]["items"][number] & { label: string }>;
+  };
+};
+
+export function displayValue(lang: Lang, leverId: string, value: unknown): string {
+  if (value == null) return "—";
+  if (Array.isArray(value)) return value.length ? value.map((v) => tOptionLabel(lang, leverId, String(v))).join(", ") : "—";
+  return typeof value === "number" ? String(value) : tOptionLabel(lang, leverId, String(value));
+}
+
+function ledgerLabel(lang: Lang, entry: LedgerEntry) {
+  if (entry.source === "_roleAdjust") return tUI(lang, "manualAdjust", "Manual adjustment");
+  if (entry.source === "_overhead") return `${entry.role.toUpperCase()} (${tUI(lang, "overhead", "overhead")})`;
+  const lever = tLever(lang, entry.source).label ?? entry.source;
+  if (entry.value == null) return lever;
+  const value = displayValue(lang, entry.source, entry.value);
+  return entry.note ? `${lever}: ${value} (${entry.note})` : `${lever}: ${value}`;
+}
+
+/** Visible levers with their resolved values, as shown on the page. */
+export function localizeInputs(config: Config, lang: Lang, selections: Selections): LocalizedInput[] {
+  const { selections: resolved, visibleIds } = resolveSelections(config, selections);
+  return config.levers
+    .filter((l) => visibleIds.has(l.id))
+    .map((l) => ({ id: l.id, label: tLever(lang, l.id).label ?? l.label, value: resolved[l.id], display: displayValue(lang, l.id, resolved[l.id]) }));
+}
+
+export function localizeEstimate(lang: Lang, result: EstimateResult): LocalizedEstimate {
+  return {
+    ...result,
+    ledger: result.ledger.map((e) => ({ ...e, label: ledgerLabel(lang, e) })),
+    phases: result.phases.map((p) => ({ ...p, label: tUI(lang, `phase_${p.id}`, p.id) })),
+    payments: result.payments.map((m) => ({ ...m, label: tUI(lang, `payment_${m.id}`, m.id) })),
+    recurring: {
+      ...result.recurring,
+      items: result.recurring.items.map((it) => ({
+        ...it,
+        label: `${tLever(lang, it.leverId).label ?? it.leverId}: ${tOptionLabel(lang, it.leverId, it.value)}`,
+      })),
+    },
+  };
+}
+
+export type CatalogLever = {
+  id: string;
+  type: "select" | "multiselect" | "number";
+  group?: string;
+  label: string;
+  help?: string;
+  unit?: string;
+  default?: string | number;
+  min?: number;
+  max?: number;
+  maxSelected?: number;
+  /** Shown only while one of these conditions holds (see `dependencies` for `show`/`hide`) */
+  visibleWhen?: Config["levers"][number]["visibleWhen"];
+  options?: Array<{ value: string; label: string }>;
+};
+
+/** Everything a front end needs to render the questionnaire; no hours or multipliers */
+export type LocalizedCatalog = {
+  version: string;
+  lang: Lang;
+  currencies: Array<{ code: string; symbol: string }>;
+  countries: Array<{ code: string; name: string; currency: string; vatIncluded: boolean; vatPercent: number }>;
+  groups: Array<{ id: string; label: string; help?: string }>;
+  levers: CatalogLever[];
+  dependencies: NonNullable<Config["dependencies"]>;
+  presets: Array<{ id: string; label: string; country?: string; values: Selections }>;
+};
+
+export function localizeCatalog(config: Config, lang: Lang): LocalizedCatalog {
+  return {
+    version: config.version,
+    lang,
+    currencies: Object.entries(config.currencies ?? {}).map(([code, c]) => ({ code, symbol: c.symbol })),
+    countries: config.countries.map((c) => ({
+      code: c.code, name: c.name, currency: c.currency, vatIncluded: c.tax.vatIncluded, vatPercent: c.tax.vatPercent,
+    })),
+    groups: (config.ui?.groups ?? []).map((g) => {
+      const t = tGroup(lang, g.id);
+      return { id: g.id, label: t.label ?? g.label ?? g.id, help: t.help };
+    }),
+    levers: config.levers.map((l) => {
+      const t = tLever(lang, l.id);
+      const lever: CatalogLever = { id: l.id, type: l.type, group: l.group, label: t.label ?? l.label, help: t.help ?? l.help, visibleWhen: l.visibleWhen };
+      if (l.type === "number") {
+        Object.assign(lever, { unit: t.unit ?? l.unit, default: l.default, min: l.min, max: l.max });
+      } else {
+        lever.options = l.options.map((o) => ({ value: o.value, label: tOptionLabel(lang, l.id, o.value, o.label) }));
+        if (l.type === "select") lever.default = l.default;
+        else lever.maxSelected = l.maxSelected;
+      }
+      return lever;
+    }),
+    dependencies: config.dependencies ?? [],
+    presets: (config.presets ?? []).map((p) => ({ id: p.id, label: tPresetLabel(lang, p.id, p.label), country: p.country, values: p.values })),
+  };
+}
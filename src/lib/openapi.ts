@@ -0,0 +1,166 @@
+// OpenAPI 3.1 description of the public API; lever and option enums are generated from the config.
+
+import type { Config } from "@/lib/estimate";
+import { SELECTION_META_KEYS } from "@/lib/validate";
+
+type Schema = Record<string, unknown>;
+
+const LANGS = ["en", "nl", "fr"];
+const ROLES = ["design", "frontend", "backend", "fullstack", "devops", "seo", "content", "pm", "qa"];
+
+const num = { type: "number" };
+const str = { type: "string" };
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const obj = (properties: Record<string, unknown>, required: string[] = Object.keys(properties)): Schema =>
+  ({ type: "object", properties, required });
+const byRole = (value: Schema) => obj(Object.fromEntries(ROLES.map((r) => [r, value])));
+
+function selectionsSchema(config: Config): Schema {
+  const properties: Record<string, unknown> = {};
+  for (const lever of config.levers) {
+    if (lever.type === "number") {
+      properties[lever.id] = { type: "number", minimum: lever.min, maximum: lever.max, default: lever.default };
+    } else if (lever.type === "select") {
+      properties[lever.id] = { type: "string", enum: lever.options.map((o) => o.value), default: lever.default };
+    } else {
+      properties[lever.id] = { type: "array", items: { type: "string", enum: lever.options.map((o) => o.value) }, maxItems: lever.maxSelected };
+    }
+  }
+  for (const [key, shape] of Object.entries(SELECTION_META_KEYS)) properties[key] = { type: shape };
+  properties._country = { type: "string", enum: config.countries.map((c) => c.code) };
+  if (config.currencies) properties._displayCurrency = { type: "string", enum: Object.keys(config.currencies) };
+  return {
+    type: "object",
+    description: "Lever values by lever id; omitted levers use their defaults. Underscore keys hold overrides.",
+    properties,
+    patternProperties: { "^_": {} },
+    additionalProperties: false,
+  };
+}
+
+export function buildOpenApi(config: Config) {
+  const hoursCost = obj({ hours: num, cost: num });
+  const vatSplit = obj({ net: num, vat: num, gross: num });
+  const labelled = (props: Record<string, unknown>) => obj({ ...props, label: str });
+
+  const schemas: Record<string, unknown> = {
+    Selections: selectionsSchema(config),
+    EstimateRequest: {
+      type: "object",
+      properties: {
+        selections: ref("Selections"),
+        presetId: { type: "string", enum: (config.presets ?? []).map((p) => p.id) },
+        lang: { type: "string", enum: LANGS, default: "en" },
+        country: { type: "string", enum: config.countries.map((c) => c.code) },
+      },
+      additionalProperties: false,
+    },
+    ValidationIssue: obj({ level: { type: "string", enum: ["error", "warning"] }, path: str, message: str }),
+    ErrorResponse: obj({ error: { type: "string", const: "invalid_request" }, issues: { type: "array", items: ref("ValidationIssue") } }),
+    EstimateResult: {
+      type: "object",
+      description: "Costs are in `currency`; hours are P50 unless stated otherwise.",
+      properties: {
+        hoursByRole: byRole(num),
+        costByRole: byRole(num),
+        subtotalHours: num,
+        subtotalCost: num,
+        overheads: obj({ pmHours: num, qaHours: num, pmCost: num, qaCost: num, pmPercent: num, qaPercent: num }),
+        p50: { allOf: [hoursCost, vatSplit] },
+        p80: { allOf: [hoursCost, vatSplit] },
+        vat: obj({ included: { type: "boolean" }, percent: num }),
+        staffing: { type: "string", enum: ["specialists", "fullstack"] },
+        customItems: { type: "array", items: { type: "object" } },
+        recurring: obj({
+          items: { type: "array", items: labelled({ leverId: str, value: str, monthly: num, yearly: num, perYear: num }) },
+          monthly: num,
+          perYear: num,
+          tco: { type: "array", items: obj({ years: num, p50: num, p80: num }) },
+        }),
+        phases: { type: "array", items: labelled({ id: str, hours: num, cost: num }) },
+        payments: { type: "array", items: obj({ id: str, percent: num, due: str, p50: num, p80: num, label: str }, ["id", "percent", "p50", "p80", "label"]) },
+        maintenance: { type: "object" },
+        ledger: {
+          type: "array",
+          items: obj({
+            source: str, value: { type: ["string", "number"] }, role: str, billedAs: str, note: str, baseHours: num,
+            multipliers: { type: "array", items: obj({ leverId: str, value: str, key: str, factor: num }) },
+            hours: num, cost: num, label: str,
+          }, ["source", "role", "billedAs", "baseHours", "multipliers", "hours", "cost", "label"]),
+        },
+        currency: str,
+        currencySymbol: str,
+        fx: obj({ base: str, baseSymbol: str, rate: num, date: str }, ["base", "baseSymbol", "rate"]),
+        debug: { type: "object" },
+      },
+    },
+    EstimateResponse: obj({
+      configVersion: str,
+      lang: { type: "string", enum: LANGS },
+      country: str,
+      presetId: { type: ["string", "null"] },
+      inputs: { type: "array", items: obj({ id: str, label: str, value: {}, display: str }) },
+      result: ref("EstimateResult"),
+      warnings: { type: "array", items: ref("ValidationIssue") },
+    }),
+    Catalog: obj({
+      version: str,
+      lang: { type: "string", enum: LANGS },
+      currencies: { type: "array", items: obj({ code: str, symbol: str }) },
+      countries: { type: "array", items: obj({ code: str, name: str, currency: str, vatIncluded: { type: "boolean" }, vatPercent: num }) },
+      groups: { type: "array", items: obj({ id: str, label: str, help: str }, ["id", "label"]) },
+      levers: {
+        type: "array",
+        items: obj({
+          id: str,
+          type: { type: "string", enum: ["select", "multiselect", "number"] },
+          group: str,
+          label: str,
+          help: str,
+          unit: str,
+          default: { type: ["string", "number"] },
+          min: num,
+          max: num,
+          maxSelected: num,
+          visibleWhen: { type: "array", items: { type: "object" } },
+          options: { type: "array", items: obj({ value: str, label: str }) },
+        }, ["id", "type", "label"]),
+      },
+      dependencies: { type: "array", items: { type: "object" } },
+      presets: { type: "array", items: obj({ id: str, label: str, country: str, values: ref("Selections") }, ["id", "label", "values"]) },
+    }),
+  };
+
+  const json = (schema: unknown) => ({ "application/json": { schema } });
+  return {
+    openapi: "3.1.0",
+    info: { title: "Website cost calculator API", version: config.version },
+    paths: {
+      "/api/estimate": {
+        post: {
+          summary: "Estimate a set of selections or a preset",
+          requestBody: { required: true, content: json(ref("EstimateRequest")) },
+          responses: {
+            200: { description: "Estimate with localized labels", content: json(ref("EstimateResponse")) },
+            400: { description: "Field-level validation errors", content: json(ref("ErrorResponse")) },
+          },
+        },
+      },
+      "/api/config": {
+        get: {
+          summary: "Localized lever catalog",
+          parameters: [{ name: "lang", in: "query", schema: { type: "string", enum: LANGS, default: "en" } }],
+          responses: {
+            200: { description: "Catalog; the ETag changes with the config version", content: json(ref("Catalog")) },
+            304: { description: "Unchanged since the ETag sent in If-None-Match" },
+            400: { description: "Unsupported language", content: json(ref("ErrorResponse")) },
+          },
+        },
+      },
+      "/api/openapi": {
+        get: { summary: "This document", responses: { 200: { description: "OpenAPI 3.1 document", content: json({ type: "object" }) } } },
+      },
+    },
+    components: { schemas },
+  };
+}
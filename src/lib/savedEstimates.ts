@@ -0,0 +1,72 @@
+// Saved estimates ("My estimates"): rows in the `saved_estimates` table, scoped to the signed-in user by RLS
+// (see supabase/migrations). Selections are stored as-is; totals are a snapshot for the list only.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { computeEstimate, type Config, type Selections } from "@/lib/estimate";
+
+const TABLE = "saved_estimates";
+
+export type SavedEstimate = {
+  id: string;
+  user_id: string;
+  name: string;
+  selections: Selections;
+  config_version: string;
+  lang: string;
+  country: string;
+  currency: string;
+  p50_hours: number;
+  p50_cost: number;
+  p80_hours: number;
+  p80_cost: number;
+  created_at: string;
+  updated_at: string;
+};
+
+type SavedEstimateInsert = Omit<SavedEstimate, "id" | "user_id" | "created_at" | "updated_at">;
+
+/** The columns for `selections`, with totals computed from the same config the page uses */
+export function toSavedEstimate(config: Config, name: string, lang: string, selections: Selections): SavedEstimateInsert {
+  const result = computeEstimate(config, selections);
+  return {
+    name,
+    selections,
+    config_version: config.version,
+    lang,
+    country: result.debug.countryCode,
+    currency: result.currency,
+    p50_hours: result.p50.hours,
+    p50_cost: result.p50.cost,
+    p80_hours: result.p80.hours,
+    p80_cost: result.p80.cost,
+  };
+}
+
+/** Supabase answers with `{ data, error }`; callers here only care about the data or a thrown error. */
+function unwrap<T>({ data, error }: { data: T | null; error: { message: string } | null }): T {
+  if (error) throw new Error(error.message);
+  return data as T;
+}
+
+/** Newest first */
+export async function listEstimates(db: SupabaseClient): Promise<SavedEstimate[]> {
+  return unwrap(await db.from(TABLE).select("*").order("updated_at", { ascending: false }));
+}
+
+export async function saveEstimate(db: SupabaseClient, row: SavedEstimateInsert): Promise<SavedEstimate> {
+  return unwrap(await db.from(TABLE).insert(row).select().single());
+}
+
+export async function renameEstimate(db: SupabaseClient, id: string, name: string): Promise<SavedEstimate> {
+  return unwrap(await db.from(TABLE).update({ name }).eq("id", id).select().single());
+}
+
+/** A new row with the same selections and totals; `name` defaults to the original's */
+export async function duplicateEstimate(db: SupabaseClient, original: SavedEstimate, name?: string): Promise<SavedEstimate> {
+  const { selections, config_version, lang, country, currency, p50_hours, p50_cost, p80_hours, p80_cost } = original;
+  return saveEstimate(db, { name: name || original.name, selections, config_version, lang, country, currency, p50_hours, p50_cost, p80_hours, p80_cost });
+}
+
+export async function deleteEstimate(db: SupabaseClient, id: string): Promise<void> {
+  unwrap(await db.from(TABLE).delete().eq("id", id));
+}
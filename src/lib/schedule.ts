@@ -0,0 +1,73 @@
+// Calendar schedule on top of EstimateResult.hoursByRole: design → build (parallel) → QA & launch.
+
+import type { Config, EstimateResult, Role, Selections } from "@/lib/estimate";
+
+export type SchedulePhaseId = "design" | "build" | "qa_launch";
+
+export type ScheduleRole = { role: Role; hours: number; people: number; weeks: number };
+
+export type SchedulePhase = {
+  id: SchedulePhaseId;
+  startWeek: number;
+  weeks: number;
+  roles: ScheduleRole[];
+};
+
+export type Schedule = {
+  phases: SchedulePhase[];
+  totalWeeks: { p50: number; p80: number };
+  weeklyHoursPerPerson: number;
+  compression: number;
+};
+
+/** Stored under selections._schedule */
+export type ScheduleSettings = { people?: Partial<Record<Role, number>>; weeklyHours?: number };
+
+const PHASE_ROLES: Record<SchedulePhaseId, Role[]> = {
+  design: ["design"],
+  build: ["frontend", "backend", "fullstack", "devops", "seo", "content"],
+  qa_launch: ["qa"],
+};
+const PHASE_ORDER: SchedulePhaseId[] = ["design", "build", "qa_launch"];
+
+function round(n: number, p = 1) { const m = Math.pow(10, p); return Math.round(n * m) / m; }
+
+/** Roles that have hours in the estimate (the ones worth staffing) */
+export function scheduledRoles(result: EstimateResult): Role[] {
+  return PHASE_ORDER.flatMap((id) => PHASE_ROLES[id]).filter((r) => (result.hoursByRole[r] ?? 0) > 0);
+}
+
+export function computeSchedule(config: Config, result: EstimateResult, selections: Selections): Schedule {
+  const settings: ScheduleSettings = selections._schedule ?? {};
+  const weekly = Number(settings.weeklyHours ?? config.schedule?.weeklyHoursPerPerson ?? 32) || 32;
+  const pressure = String(selections["timeline_pressure"] ?? "normal");
+  const compression = Number(config.schedule?.timelineCompression?.[pressure] ?? 1) || 1;
+  const launchWeeks = Number(config.schedule?.launchWeeks ?? 0);
+
+  let cursor = 0;
+  const phases: SchedulePhase[] = [];
+  for (const id of PHASE_ORDER) {
+    const roles: ScheduleRole[] = PHASE_ROLES[id]
+      .map((role) => {
+        const hours = result.hoursByRole[role] ?? 0;
+        const people = Math.max(1, Math.floor(Number(settings.people?.[role] ?? 1)));
+        return { role, hours, people, weeks: round((hours / (people * weekly)) * compression) };
+      })
+      .filter((r) => r.hours > 0);
+    // roles inside a phase run in parallel, so the slowest one sets its length
+    let weeks = roles.reduce((m, r) => Math.max(m, r.weeks), 0);
+    if (id === "qa_launch") weeks += launchWeeks;
+    if (weeks <= 0) continue;
+    phases.push({ id, startWeek: round(cursor), weeks: round(weeks), roles });
+    cursor += weeks;
+  }
+
+  // P80 stretches the calendar by the same ratio as the hours
+  const ratio = result.p50.hours > 0 ? result.p80.hours / result.p50.hours : 1;
+  return {
+    phases,
+    totalWeeks: { p50: round(cursor), p80: round(cursor * ratio) },
+    weeklyHoursPerPerson: weekly,
+    compression,
+  };
+}
@@ -0,0 +1,93 @@
+// Sensitivity analysis: how much P50/P80 cost moves when one visible lever changes, ranked by impact.
+
+import { OTHER_VALUE, computeEstimate, resolveSelections, type Config, type Selections } from "@/lib/estimate";
+
+export type SensitivityOptions = {
+  /** Units a number lever moves up and down; default 25% of its current value (at least 1) */
+  numberStep?: number;
+  /** Keep only the most impactful levers */
+  limit?: number;
+};
+
+export type SensitivityChange = {
+  /** Lever value after the change */
+  value: string | number | string[];
+  /** Multiselect only: the option that was added or removed */
+  toggled?: { option: string; added: boolean };
+  p50Delta: number;
+  p80Delta: number;
+};
+
+export type LeverSensitivity = {
+  leverId: string;
+  current: string | number | string[];
+  /** Every alternative that was tried, cheapest first */
+  changes: SensitivityChange[];
+  /** Largest saving and largest increase (either can be missing) */
+  low?: SensitivityChange;
+  high?: SensitivityChange;
+  /** P50 range between low and high, used for ranking */
+  swing: number;
+};
+
+export type SensitivityResult = {
+  baseline: { p50: number; p80: number };
+  currency: string;
+  currencySymbol: string;
+  levers: LeverSensitivity[];
+};
+
+function alternatives(lever: Config["levers"][number], current: any, numberStep?: number) {
+  const out: Array<Omit<SensitivityChange, "p50Delta" | "p80Delta">> = [];
+  if (lever.type === "select") {
+    for (const o of lever.options) {
+      if (o.value !== current && o.value !== OTHER_VALUE) out.push({ value: o.value });
+    }
+  } else if (lever.type === "multiselect") {
+    const selected: string[] = Array.isArray(current) ? current : [];
+    for (const o of lever.options) {
+      if (o.value === OTHER_VALUE) continue;
+      if (selected.includes(o.value)) {
+        out.push({ value: selected.filter((v) => v !== o.value), toggled: { option: o.value, added: false } });
+      } else if (lever.maxSelected == null || selected.length < lever.maxSelected) {
+        out.push({ value: [...selected, o.value], toggled: { option: o.value, added: true } });
+      }
+    }
+  } else {
+    const n = Number(current ?? 0);
+    const step = numberStep ?? Math.max(1, Math.round(Math.abs(n) * 0.25));
+    for (const next of [n - step, n + step]) {
+      const clamped = Math.min(lever.max ?? next, Math.max(lever.min ?? next, next));
+      if (clamped !== n && !out.some((a) => a.value === clamped)) out.push({ value: clamped });
+    }
+  }
+  return out;
+}
+
+export function analyzeSensitivity(config: Config, rawSelections: Selections, opts: SensitivityOptions = {}): SensitivityResult {
+  const base = computeEstimate(config, rawSelections, { simulate: false });
+  const { selections, visibleIds } = resolveSelections(config, rawSelections);
+
+  const levers: LeverSensitivity[] = [];
+  for (const lever of config.levers) {
+    if (!visibleIds.has(lever.id)) continue;
+    const current = selections[lever.id];
+    const changes = alternatives(lever, current, opts.numberStep).map((alt) => {
+      const r = computeEstimate(config, { ...rawSelections, [lever.id]: alt.value }, { simulate: false });
+      return { ...alt, p50Delta: r.p50.cost - base.p50.cost, p80Delta: r.p80.cost - base.p80.cost };
+    });
+    if (!changes.some((c) => c.p50Delta !== 0 || c.p80Delta !== 0)) continue;
+    changes.sort((a, b) => a.p50Delta - b.p50Delta);
+    const low = changes[0].p50Delta < 0 ? changes[0] : undefined;
+    const high = changes[changes.length - 1].p50Delta > 0 ? changes[changes.length - 1] : undefined;
+    levers.push({ leverId: lever.id, current, changes, low, high, swing: (high?.p50Delta ?? 0) - (low?.p50Delta ?? 0) });
+  }
+  levers.sort((a, b) => b.swing - a.swing);
+
+  return {
+    baseline: { p50: base.p50.cost, p80: base.p80.cost },
+    currency: base.currency,
+    currencySymbol: base.currencySymbol,
+    levers: opts.limit != null ? levers.slice(0, opts.limit) : levers,
+  };
+}
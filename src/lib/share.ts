@@ -0,0 +1,110 @@
+// Shareable links: Selections as a compact, versioned URL parameter (`?s=1.<base64url JSON>`).
+
+import { resolveSelections, type Config, type Selections } from "@/lib/estimate";
+import { validateSelections } from "@/lib/validate";
+
+export const SHARE_PARAM = "s";
+const SHARE_VERSION = 1;
+
+/** Underscore keys that travel with a link; anything else starting with "_" is page state */
+const SHARED_META_KEYS = [
+  "_country", "_displayCurrency", "_roleAdjust", "_rateOverrides", "_taxOverrides",
+  "_overheadOverrides", "_other", "_customItems", "_schedule",
+];
+
+type SharePayload = { c: string; s: Selections };
+
+export type DecodedShare = {
+  selections: Selections;
+  /** Config version the link was made with */
+  configVersion: string;
+  /** Lever ids, "lever=option" values and underscore settings that no longer exist or are invalid, left out */
+  dropped: string[];
+};
+
+function toBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  let bin = "";
+  bytes.forEach((b) => { bin += String.fromCharCode(b); });
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(data: string) {
+  const b64 = data.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+}
+
+function isEmpty(v: unknown) {
+  return v == null || (typeof v === "object" && Object.keys(v as object).length === 0);
+}
+
+/** Only what differs from the lever defaults, plus non-empty overrides. */
+export function encodeSelections(config: Config, selections: Selections): string {
+  const defaults = resolveSelections(config, { _country: selections._country }).selections;
+  const s: Selections = {};
+  for (const lever of config.levers) {
+    const v = selections[lever.id];
+    if (v === undefined) continue;
+    if (JSON.stringify(v) !== JSON.stringify(defaults[lever.id])) s[lever.id] = v;
+  }
+  for (const key of SHARED_META_KEYS) {
+    if (!isEmpty(selections[key])) s[key] = selections[key];
+  }
+  const payload: SharePayload = { c: config.version, s };
+  return `${SHARE_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/** Returns null for links that cannot be read at all; stale levers and options are dropped, not fatal. */
+export function decodeSelections(config: Config, param: string): DecodedShare | null {
+  const dot = param.indexOf(".");
+  if (dot < 0 || Number(param.slice(0, dot)) !== SHARE_VERSION) return null;
+  // links get hand-edited and truncated: anything that does not decode cleanly is an invalid link, never a crash
+  try {
+    const payload: SharePayload = JSON.parse(fromBase64Url(param.slice(dot + 1)));
+    if (!payload || typeof payload !== "object" || !payload.s || typeof payload.s !== "object" || Array.isArray(payload.s)) return null;
+    return readPayload(config, payload);
+  } catch {
+    return null;
+  }
+}
+
+function readPayload(config: Config, payload: SharePayload): DecodedShare {
+  return { ...readSelections(config, payload.s), configVersion: String(payload.c ?? "") };
+}
+
+/**
+ * Keeps what the current config can use from stored selections (links, autosave, saved estimates): unknown levers and
+ * options, underscore settings that fail validation and options past a lever's `maxSelected` go to `dropped`.
+ */
+export function readSelections(config: Config, raw: Record<string, unknown>): Pick<DecodedShare, "selections" | "dropped"> {
+  const selections: Selections = {};
+  const dropped: string[] = [];
+  const leverById = new Map(config.levers.map((l) => [l.id, l]));
+  for (const [key, value] of Object.entries(raw)) {
+    if (key.startsWith("_")) {
+      if (!SHARED_META_KEYS.includes(key)) { dropped.push(key); continue; }
+      if (key === "_country" && !config.countries.some((c) => c.code === value)) { dropped.push(`${key}=${value}`); continue; }
+      if (validateSelections(config, { [key]: value }).some((i) => i.level === "error")) { dropped.push(key); continue; }
+      selections[key] = value;
+      continue;
+    }
+    const lever = leverById.get(key);
+    if (!lever) { dropped.push(key); continue; }
+    if (lever.type === "number") {
+      const n = Number(value);
+      if (!Number.isFinite(n)) { dropped.push(key); continue; }
+      selections[key] = Math.min(lever.max ?? n, Math.max(lever.min ?? n, n));
+    } else if (lever.type === "select") {
+      if (lever.options.some((o) => o.value === value)) selections[key] = value;
+      else dropped.push(`${key}=${value}`);
+    } else {
+      const arr: unknown[] = Array.isArray(value) ? value : [];
+      const known = arr.filter((v): v is string => lever.options.some((o) => o.value === v));
+      const kept = lever.maxSelected != null ? known.slice(0, lever.maxSelected) : known;
+      arr.filter((v) => !kept.includes(v as string)).forEach((v) => dropped.push(`${key}=${v}`));
+      selections[key] = kept;
+    }
+  }
+  return { selections, dropped };
+}
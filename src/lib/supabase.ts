@@ -1,27 +1,36 @@
-// TO DO LATER:
-// https://chatgpt.com/g/g-p-68a4966ab3488191a4b672e6e0831d37/c/68a6e8cb-d3f4-8333-ad97-c7226cde965f?project_id=g-p-68a4966ab3488191a4b672e6e0831d37&owner_user_id=user-UI6L088RAp5vJhuqwxMAtBIe
-
 // lib/supabase.ts
-// import { createBrowserClient, createServerClient } from "@supabase/ssr";
-// import { cookies } from "next/headers";
+// Supabase clients for accounts and saved estimates. Both read NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY;
+// for development these come from `npx supabase start` (see README).
+import { createBrowserClient, createServerClient } from "@supabase/ssr";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+/** False when the env vars are missing; the page then hides accounts instead of failing. */
+export const isSupabaseConfigured = () => Boolean(url && anonKey);
+
+let browserClient: SupabaseClient | null = null;
+
+/** One shared client per tab (it owns the auth session and its listeners). */
+export const createClientBrowser = (): SupabaseClient => {
+  if (!browserClient) browserClient = createBrowserClient(url!, anonKey!);
+  return browserClient;
+};
 
-// export const createClientBrowser = () =>
-//   createBrowserClient(
-//     process.env.NEXT_PUBLIC_SUPABASE_URL!,
-//     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-//   );
+type CookieStore = {
+  getAll(): { name: string; value: string }[];
+  set(name: string, value: string, options?: Record<string, unknown>): unknown;
+};
 
-// export const createClientServer = () => {
-//   const cookieStore = cookies();
-//   return createServerClient(
-//     process.env.NEXT_PUBLIC_SUPABASE_URL!,
-//     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-//     {
-//       cookies: {
-//         get: (name) => cookieStore.get(name)?.value,
-//         set: (name, value, options) => cookieStore.set(name, value, options),
-//         remove: (name, options) => cookieStore.set(name, "", { ...options, maxAge: 0 }),
-//       },
-//     }
-//   );
-// };
+/**
+ * For route handlers: pass `await cookies()` from next/headers. Taking the store as an argument keeps
+ * next/headers out of this module, which the page also imports.
+ */
+export const createClientServer = (cookieStore: CookieStore): SupabaseClient =>
+  createServerClient(url!, anonKey!, {
+    cookies: {
+      getAll: () => cookieStore.getAll(),
+      setAll: (list) => list.forEach(({ name, value, options }) => cookieStore.set(name, value, options)),
+    },
+  });
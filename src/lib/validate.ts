@@ -0,0 +1,400 @@
+// Config validator: cross-checks factors.json, countries.json and factors.i18n.json.
+
+import type { Condition, Config, Role } from "@/lib/estimate";
+
+export type ValidationIssue = {
+  level: "error" | "warning";
+  /** Dotted location inside the config, e.g. "levers.pages_unique.hoursPerUnit.qa" */
+  path: string;
+  message: string;
+};
+
+const ROLES: Role[] = ["design", "frontend", "backend", "pm", "qa", "devops", "seo", "content", "fullstack"];
+/** Levers read by name in the engine rather than through hours or multipliers */
+const ENGINE_LEVERS = new Set(["risk_level", "team_composition", "timeline_pressure"]);
+const NUMBER_HOUR_BLOCKS = ["hoursPerUnit", "hoursPerBatch", "hoursBase", "hoursPerExtraLocale"] as const;
+const LANGS = ["en", "nl", "fr"];
+
+function conditionIds(cond: Condition | undefined): string[] {
+  if (!cond) return [];
+  if ("all" in cond) return cond.all.flatMap(conditionIds);
+  if ("any" in cond) return cond.any.flatMap(conditionIds);
+  if ("not" in cond) return conditionIds(cond.not);
+  return [cond.id];
+}
+
+function checkHoursValue(issues: ValidationIssue[], path: string, v: unknown) {
+  if (Array.isArray(v)) {
+    const ok = v.length === 3 && v.every((x) => typeof x === "number") && v[0] <= v[1] && v[1] <= v[2];
+    if (!ok) issues.push({ level: "error", path, message: "hour ranges must be [optimistic, likely, pessimistic] in ascending order" });
+  } else if (typeof v !== "number") {
+    issues.push({ level: "error", path, message: `hours must be a number, got ${JSON.stringify(v)}` });
+  }
+}
+
+function isZeroHours(v: unknown) {
+  return Array.isArray(v) ? v.every((x) => x === 0) : v === 0;
+}
+
+function checkRoleKey(issues: ValidationIssue[], path: string, role: string, kind: "hours" | "multiplier"): boolean {
+  if (kind === "multiplier" && role === "all") return true;
+  if (!(ROLES as string[]).includes(role)) {
+    issues.push({ level: "error", path, message: `unknown role "${role}"` });
+    return false;
+  }
+  return true;
+}
+
+export function validateConfig(config: Config, i18n?: Record<string, any>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const leverById = new Map(config.levers.map((l) => [l.id, l]));
+  const groupIds = new Set((config.ui?.groups ?? []).map((g) => g.id));
+
+  // Ids referenced by conditions / dependencies count as "having an effect"
+  const referenced = new Set<string>();
+  const checkRef = (path: string, id: string) => {
+    referenced.add(id);
+    if (!leverById.has(id)) issues.push({ level: "error", path, message: `unknown lever "${id}"` });
+  };
+
+  // Countries
+  for (const c of config.countries) {
+    for (const r of ROLES) {
+      if (r === "fullstack") continue;
+      if (typeof (c.baseRates as any)?.[r] !== "number") {
+        issues.push({ level: "error", path: `countries.${c.code}.baseRates.${r}`, message: "missing base rate" });
+      }
+    }
+    if (config.currencies && !config.currencies[c.currency]) {
+      issues.push({ level: "warning", path: `countries.${c.code}.currency`, message: `currency "${c.currency}" has no FX entry` });
+    }
+  }
+
+  // Levers
+  const seen = new Set<string>();
+  const noEffect: string[] = [];
+  for (const lever of config.levers) {
+    const base = `levers.${lever.id}`;
+    if (seen.has(lever.id)) issues.push({ level: "error", path: base, message: "duplicate lever id" });
+    seen.add(lever.id);
+    if (lever.group && groupIds.size && !groupIds.has(lever.group)) {
+      issues.push({ level: "error", path: `${base}.group`, message: `unknown group "${lever.group}"` });
+    }
+    (lever.visibleWhen ?? []).forEach((cond, i) => conditionIds(cond).forEach((id) => checkRef(`${base}.visibleWhen[${i}]`, id)));
+
+    let hasEffect = false;
+    if (lever.type === "number") {
+      for (const block of NUMBER_HOUR_BLOCKS) {
+        const hours = (lever as any)[block] as Record<string, unknown> | undefined;
+        if (!hours) continue;
+        for (const [role, v] of Object.entries(hours)) {
+          if (block === "hoursPerBatch" && role === "batchSize") continue;
+          const path = `${base}.${block}.${role}`;
+          if (!checkRoleKey(issues, path, role, "hours")) continue;
+          checkHoursValue(issues, path, v);
+          if (!isZeroHours(v)) hasEffect = true;
+        }
+      }
+      if (lever.default != null && ((lever.min != null && lever.default < lever.min) || (lever.max != null && lever.default > lever.max))) {
+        issues.push({ level: "error", path: `${base}.default`, message: "default is outside min/max" });
+      }
+    } else {
+      const values = new Set<string>();
+      for (const opt of lever.options) {
+        const optPath = `${base}.options.${opt.value}`;
+        if (values.has(opt.value)) issues.push({ level: "error", path: optPath, message: "duplicate option value" });
+        values.add(opt.value);
+        for (const [k, v] of Object.entries(opt)) {
+          const [kind, role] = k.split(".");
+          if (kind === "recurring") {
+            if (role !== "monthly" && role !== "yearly") issues.push({ level: "error", path: `${optPath}.${k}`, message: `unknown recurring period "${role}"` });
+            else if (typeof v !== "number" || v < 0) issues.push({ level: "error", path: `${optPath}.${k}`, message: "recurring cost must be a non-negative number" });
+            else hasEffect = true;
+            continue;
+          }
+          if (kind !== "hours" && kind !== "multiplier") continue;
+          const path = `${optPath}.${k}`;
+          if (!checkRoleKey(issues, path, role, kind)) continue;
+          if (kind === "hours") checkHoursValue(issues, path, v);
+          else if (typeof v !== "number") issues.push({ level: "error", path, message: "multiplier must be a number" });
+          hasEffect = true;
+        }
+      }
+      if (lever.type === "select" && lever.default != null && !values.has(lever.default)) {
+        issues.push({ level: "error", path: `${base}.default`, message: `default "${lever.default}" is not an option` });
+      }
+    }
+    if (!hasEffect && !ENGINE_LEVERS.has(lever.id)) noEffect.push(lever.id);
+  }
+
+  // Dependencies
+  (config.dependencies ?? []).forEach((dep, i) => {
+    const base = `dependencies[${i}]`;
+    conditionIds(dep.if).forEach((id) => checkRef(`${base}.if`, id));
+    for (const id of dep.then?.hide ?? []) checkRef(`${base}.then.hide`, id);
+    for (const id of dep.then?.show ?? []) checkRef(`${base}.then.show`, id);
+    for (const adj of dep.then?.adjust ?? []) {
+      checkRef(`${base}.then.adjust`, adj.id);
+      const target = leverById.get(adj.id);
+      if (target && target.type !== "number" && !target.options.some((o) => o.value === adj.set)) {
+        issues.push({ level: "error", path: `${base}.then.adjust.${adj.id}`, message: `"${adj.set}" is not an option of ${adj.id}` });
+      }
+    }
+  });
+
+  // PM/QA overhead rules
+  (config.globalOverheads.overheadRules ?? []).forEach((rule, i) => {
+    const base = `globalOverheads.overheadRules[${i}]`;
+    conditionIds(rule.if).forEach((id) => checkRef(`${base}.if`, id));
+    for (const mode of ["set", "add"] as const) {
+      for (const [k, v] of Object.entries(rule[mode] ?? {})) {
+        const path = `${base}.${mode}.${k}`;
+        if (k !== "pm" && k !== "qa") issues.push({ level: "error", path, message: `overhead rules only apply to "pm" and "qa", got "${k}"` });
+        else if (typeof v !== "number" || (mode === "set" && (v < 0 || v > 1))) issues.push({ level: "error", path, message: "overhead percentage must be a fraction between 0 and 1" });
+      }
+    }
+    if (!rule.set && !rule.add) issues.push({ level: "warning", path: base, message: "rule has neither set nor add" });
+  });
+
+  // Billing phases and payment milestones
+  const phases = config.phases;
+  if (phases) {
+    const order = new Set(phases.order);
+    const checkPhase = (path: string, id: string) => {
+      if (!order.has(id)) issues.push({ level: "error", path, message: `unknown phase "${id}"` });
+    };
+    checkPhase("phases.default", phases.default);
+    for (const [role, id] of Object.entries(phases.roles ?? {})) {
+      if (!(ROLES as string[]).includes(role)) issues.push({ level: "error", path: `phases.roles.${role}`, message: `unknown role "${role}"` });
+      checkPhase(`phases.roles.${role}`, id);
+    }
+    for (const [leverId, target] of Object.entries(phases.levers ?? {})) {
+      if (!leverById.has(leverId)) issues.push({ level: "error", path: `phases.levers.${leverId}`, message: `unknown lever "${leverId}"` });
+      if (typeof target === "string") checkPhase(`phases.levers.${leverId}`, target);
+      else for (const [role, id] of Object.entries(target)) checkPhase(`phases.levers.${leverId}.${role}`, id);
+    }
+    const payments = phases.payments ?? [];
+    payments.forEach((m, i) => {
+      if (m.due != null) checkPhase(`phases.payments[${i}].due`, m.due);
+      if (!(m.percent > 0)) issues.push({ level: "error", path: `phases.payments[${i}].percent`, message: "percent must be a positive fraction" });
+    });
+    const sum = payments.reduce((s, m) => s + m.percent, 0);
+    if (payments.length && Math.abs(sum - 1) > 1e-6) {
+      issues.push({ level: "error", path: "phases.payments", message: `payment percentages add up to ${sum}, expected 1` });
+    }
+  }
+
+  // Levers that neither add hours nor drive anything else
+  for (const id of noEffect) {
+    if (!referenced.has(id)) {
+      issues.push({ level: "warning", path: `levers.${id}`, message: "lever has no hours or multiplier effect and is not referenced by any rule" });
+    }
+  }
+
+  // Presets
+  for (const preset of config.presets ?? []) {
+    const base = `presets.${preset.id}`;
+    if (preset.country != null && !config.countries.some((c) => c.code === preset.country)) {
+      issues.push({ level: "error", path: `${base}.country`, message: `unknown country "${preset.country}"` });
+    }
+    for (const [id, value] of Object.entries(preset.values ?? {})) {
+      const path = `${base}.values.${id}`;
+      const lever = leverById.get(id);
+      if (!lever) { issues.push({ level: "error", path, message: `unknown lever "${id}"` }); continue; }
+      if (lever.type === "number") {
+        if (typeof value !== "number") issues.push({ level: "error", path, message: "expected a number" });
+        else if ((lever.min != null && value < lever.min) || (lever.max != null && value > lever.max)) {
+          issues.push({ level: "error", path, message: `${value} is outside ${lever.min ?? "-∞"}…${lever.max ?? "∞"}` });
+        }
+        continue;
+      }
+      const list = lever.type === "multiselect" ? (Array.isArray(value) ? value : [value]) : [value];
+      for (const v of list) {
+        if (!lever.options.some((o) => o.value === v)) issues.push({ level: "error", path, message: `unknown option "${v}"` });
+      }
+    }
+  }
+
+  // i18n coverage
+  if (i18n) {
+    for (const lang of LANGS) {
+      const L = i18n[lang];
+      if (!L) { issues.push({ level: "warning", path: `i18n.${lang}`, message: "language missing" }); continue; }
+      for (const g of groupIds) {
+        if (!L.ui?.groups?.[g]?.label) issues.push({ level: "warning", path: `i18n.${lang}.ui.groups.${g}`, message: "missing label" });
+      }
+      for (const lever of config.levers) {
+        const T = L.levers?.[lever.id];
+        if (!T?.label) { issues.push({ level: "warning", path: `i18n.${lang}.levers.${lever.id}`, message: "missing label" }); continue; }
+        if (lever.type === "number") continue;
+        for (const opt of lever.options) {
+          if (!T.options?.[opt.value]) issues.push({ level: "warning", path: `i18n.${lang}.levers.${lever.id}.options.${opt.value}`, message: "missing option label" });
+        }
+      }
+      for (const id of Object.keys(L.levers ?? {})) {
+        if (!leverById.has(id)) issues.push({ level: "warning", path: `i18n.${lang}.levers.${id}`, message: "translation for unknown lever" });
+      }
+      for (const preset of config.presets ?? []) {
+        if (!L.presets?.[preset.id]) issues.push({ level: "warning", path: `i18n.${lang}.presets.${preset.id}`, message: "missing preset label" });
+      }
+      for (const role of Object.keys(L.rateHelp ?? {})) {
+        if (!(ROLES as string[]).includes(role)) issues.push({ level: "warning", path: `i18n.${lang}.rateHelp.${role}`, message: `unknown role "${role}"` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/** Underscore keys the engine reads, with the JSON shape each must have */
+export const SELECTION_META_KEYS: Record<string, "string" | "object" | "array"> = {
+  _country: "string", _displayCurrency: "string", _roleAdjust: "object", _rateOverrides: "object", _taxOverrides: "object",
+  _overheadOverrides: "object", _other: "object", _customItems: "array", _schedule: "object",
+};
+
+function shapeOf(v: unknown) {
+  return Array.isArray(v) ? "array" : v === null ? "null" : typeof v;
+}
+
+const BUILD_ROLES: Role[] = ["design", "frontend", "backend", "devops", "seo", "content", "fullstack"];
+
+type NumberRule = { min?: number; max?: number; above?: number };
+
+/** Pushes an issue unless `v` is a finite number within the rule; true when it passed */
+function checkNumber(issues: ValidationIssue[], path: string, v: unknown, rule: NumberRule = {}): boolean {
+  if (typeof v !== "number" || !Number.isFinite(v)) { issues.push({ level: "error", path, message: "must be a number" }); return false; }
+  if (rule.min != null && v < rule.min) { issues.push({ level: "error", path, message: `must be at least ${rule.min}` }); return false; }
+  if (rule.above != null && v <= rule.above) { issues.push({ level: "error", path, message: `must be more than ${rule.above}` }); return false; }
+  if (rule.max != null && v > rule.max) { issues.push({ level: "error", path, message: `must be at most ${rule.max}` }); return false; }
+  return true;
+}
+
+/** Pushes an issue unless `v` is a plain object; true when it is */
+function checkObject(issues: ValidationIssue[], path: string, v: unknown): v is Record<string, unknown> {
+  if (shapeOf(v) === "object") return true;
+  issues.push({ level: "error", path, message: "must be an object" });
+  return false;
+}
+
+/** `{ role: number }` maps: role adjustments, rates, hours of an "other" option, schedule staffing */
+function checkRoleNumbers(issues: ValidationIssue[], path: string, v: unknown, roles: Role[], rule?: NumberRule) {
+  if (!checkObject(issues, path, v)) return;
+  for (const [role, n] of Object.entries(v)) {
+    if (!(roles as string[]).includes(role)) { issues.push({ level: "error", path: `${path}.${role}`, message: "unknown role" }); continue; }
+    if (n != null) checkNumber(issues, `${path}.${role}`, n, rule);
+  }
+}
+
+/** Values inside the object- and array-shaped meta keys; paths continue the key, e.g. "_rateOverrides.NL.frontend" */
+function checkMetaValue(config: Config, issues: ValidationIssue[], key: string, value: unknown) {
+  const countries = new Set(config.countries.map((c) => c.code));
+  const entries = shapeOf(value) === "object" ? Object.entries(value as Record<string, unknown>) : [];
+  switch (key) {
+    case "_roleAdjust":
+      checkRoleNumbers(issues, key, value, BUILD_ROLES);
+      return;
+    case "_rateOverrides":
+      for (const [code, rates] of entries) {
+        if (!countries.has(code)) { issues.push({ level: "error", path: `${key}.${code}`, message: `unknown country "${code}"` }); continue; }
+        checkRoleNumbers(issues, `${key}.${code}`, rates, ROLES, { min: 0 });
+      }
+      return;
+    case "_taxOverrides":
+      for (const [code, tax] of entries) {
+        const path = `${key}.${code}`;
+        if (!countries.has(code)) { issues.push({ level: "error", path, message: `unknown country "${code}"` }); continue; }
+        if (!checkObject(issues, path, tax)) continue;
+        if (tax.vatPercent != null) checkNumber(issues, `${path}.vatPercent`, tax.vatPercent, { min: 0, max: 100 });
+        if (tax.vatIncluded != null && typeof tax.vatIncluded !== "boolean") issues.push({ level: "error", path: `${path}.vatIncluded`, message: "must be a boolean" });
+      }
+      return;
+    case "_overheadOverrides":
+      for (const [k, v] of entries) {
+        if (k !== "pm" && k !== "qa") { issues.push({ level: "error", path: `${key}.${k}`, message: "only pm and qa can be overridden" }); continue; }
+        if (v != null) checkNumber(issues, `${key}.${k}`, v, { min: 0, max: 1 });
+      }
+      return;
+    case "_other":
+      for (const [leverId, spec] of entries) {
+        const path = `${key}.${leverId}`;
+        if (!config.levers.some((l) => l.id === leverId)) { issues.push({ level: "error", path, message: "unknown lever" }); continue; }
+        if (!checkObject(issues, path, spec)) continue;
+        if (spec.description != null && typeof spec.description !== "string") issues.push({ level: "error", path: `${path}.description`, message: "must be a string" });
+        if (spec.hours != null) checkRoleNumbers(issues, `${path}.hours`, spec.hours, BUILD_ROLES, { min: 0 });
+      }
+      return;
+    case "_customItems":
+      (value as unknown[]).forEach((it, i) => {
+        const path = `${key}[${i}]`;
+        if (!checkObject(issues, path, it)) return;
+        if (typeof it.id !== "string") issues.push({ level: "error", path: `${path}.id`, message: "must be a string" });
+        if (typeof it.label !== "string") issues.push({ level: "error", path: `${path}.label`, message: "must be a string" });
+        if (it.loaded != null && typeof it.loaded !== "boolean") issues.push({ level: "error", path: `${path}.loaded`, message: "must be a boolean" });
+        if (it.kind === "fixed") {
+          checkNumber(issues, `${path}.amount`, it.amount, { above: 0 });
+        } else if (it.kind === "hours") {
+          if (!(BUILD_ROLES as unknown[]).includes(it.role)) issues.push({ level: "error", path: `${path}.role`, message: `must be one of ${BUILD_ROLES.join(", ")}` });
+          checkNumber(issues, `${path}.hours`, it.hours, { above: 0 });
+        } else {
+          issues.push({ level: "error", path: `${path}.kind`, message: 'must be "hours" or "fixed"' });
+        }
+      });
+      return;
+    case "_schedule": {
+      const schedule = value as Record<string, unknown>;
+      if (schedule.people != null) checkRoleNumbers(issues, `${key}.people`, schedule.people, ROLES, { min: 0 });
+      if (schedule.weeklyHours != null) checkNumber(issues, `${key}.weeklyHours`, schedule.weeklyHours, { above: 0, max: 168 });
+      return;
+    }
+  }
+}
+
+/**
+ * Field-level check of user selections against the lever catalog; `path` is the lever id (plus index for lists),
+ * or the dotted location inside an underscore setting.
+ */
+export function validateSelections(config: Config, selections: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!selections || shapeOf(selections) !== "object") {
+    return [{ level: "error", path: "", message: "selections must be an object" }];
+  }
+  const leverById = new Map(config.levers.map((l) => [l.id, l]));
+
+  for (const [key, value] of Object.entries(selections as Record<string, unknown>)) {
+    if (key.startsWith("_")) {
+      const shape = SELECTION_META_KEYS[key];
+      if (!shape) { issues.push({ level: "warning", path: key, message: "unknown setting, ignored" }); continue; }
+      if (value === undefined) continue;
+      if (shapeOf(value) !== shape) { issues.push({ level: "error", path: key, message: `must be ${shape === "array" ? "an" : "a"} ${shape}` }); continue; }
+      if (key === "_country" && !config.countries.some((c) => c.code === value)) {
+        issues.push({ level: "error", path: key, message: `unknown country "${value}"` });
+      }
+      if (key === "_displayCurrency" && config.currencies && !config.currencies[value as string]) {
+        issues.push({ level: "error", path: key, message: `unknown currency "${value}"` });
+      }
+      checkMetaValue(config, issues, key, value);
+      continue;
+    }
+
+    const lever = leverById.get(key);
+    if (!lever) { issues.push({ level: "error", path: key, message: "unknown lever" }); continue; }
+    if (value == null) continue;
+    if (lever.type === "number") {
+      if (typeof value !== "number" || !Number.isFinite(value)) { issues.push({ level: "error", path: key, message: "must be a number" }); continue; }
+      if (lever.min != null && value < lever.min) issues.push({ level: "error", path: key, message: `must be at least ${lever.min}` });
+      if (lever.max != null && value > lever.max) issues.push({ level: "error", path: key, message: `must be at most ${lever.max}` });
+    } else if (lever.type === "select") {
+      if (typeof value !== "string") { issues.push({ level: "error", path: key, message: "must be a string" }); continue; }
+      if (!lever.options.some((o) => o.value === value)) issues.push({ level: "error", path: key, message: `unknown option "${value}"` });
+    } else {
+      if (!Array.isArray(value)) { issues.push({ level: "error", path: key, message: "must be an array" }); continue; }
+      value.forEach((v, i) => {
+        if (!lever.options.some((o) => o.value === v)) issues.push({ level: "error", path: `${key}[${i}]`, message: `unknown option ${JSON.stringify(v)}` });
+      });
+      if (lever.maxSelected != null && value.length > lever.maxSelected) {
+        issues.push({ level: "error", path: key, message: `at most ${lever.maxSelected} options` });
+      }
+    }
+  }
+  return issues;
+}
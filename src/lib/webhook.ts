@@ -0,0 +1,123 @@
+// Lead webhook: payload shape, HMAC signing and delivery with retries (Web Crypto, so it runs on edge and node).
+
+import type { ValidationIssue } from "@/lib/validate";
+
+export const SIGNATURE_HEADER = "x-codecost-signature";
+export const TIMESTAMP_HEADER = "x-codecost-timestamp";
+
+export type Lead = {
+  name: string;
+  email: string;
+  company?: string;
+  notes?: string;
+  /** Must be true; leads without consent are never forwarded */
+  consent: boolean;
+};
+
+/** Headline numbers only; the receiver can call /api/estimate with `selections` for the full result */
+export type EstimateSummary = {
+  currency: string;
+  p50: { hours: number; cost: number };
+  p80: { hours: number; cost: number };
+  vatPercent: number;
+  recurringPerYear: number;
+};
+
+export type LeadPayload = {
+  type: "lead";
+  id: string;
+  createdAt: string;
+  lang: string;
+  country: string;
+  configVersion: string;
+  lead: Lead;
+  selections: Record<string, unknown>;
+  estimate: EstimateSummary;
+};
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_TEXT = 2000;
+
+export function validateLead(lead: unknown): ValidationIssue[] {
+  if (!lead || typeof lead !== "object") return [{ level: "error", path: "lead", message: "lead must be an object" }];
+  const l = lead as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+  const text = (key: string, required: boolean) => {
+    const v = l[key];
+    if (v == null || v === "") {
+      if (required) issues.push({ level: "error", path: `lead.${key}`, message: "required" });
+    } else if (typeof v !== "string") {
+      issues.push({ level: "error", path: `lead.${key}`, message: "must be a string" });
+    } else if (v.length > MAX_TEXT) {
+      issues.push({ level: "error", path: `lead.${key}`, message: `at most ${MAX_TEXT} characters` });
+    }
+  };
+  text("name", true);
+  text("email", true);
+  text("company", false);
+  text("notes", false);
+  if (typeof l.email === "string" && l.email && !EMAIL.test(l.email)) issues.push({ level: "error", path: "lead.email", message: "not an email address" });
+  if (l.consent !== true) issues.push({ level: "error", path: "lead.consent", message: "consent is required" });
+  return issues;
+}
+
+function toHex(buf: ArrayBuffer) {
+  return Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** `sha256=<hex HMAC of "<timestamp>.<body>">`; the timestamp lets receivers reject replays. */
+export async function signPayload(secret: string, timestamp: string, body: string) {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return `sha256=${toHex(await crypto.subtle.sign("HMAC", key, enc.encode(`${timestamp}.${body}`)))}`;
+}
+
+export async function verifySignature(secret: string, timestamp: string, body: string, signature: string) {
+  const expected = await signPayload(secret, timestamp, body);
+  if (expected.length !== signature.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  return diff === 0;
+}
+
+export type DeliveryOptions = {
+  secret?: string;
+  /** Total tries, including the first */
+  attempts?: number;
+  /** First retry delay; doubles on every retry */
+  backoffMs?: number;
+  timeoutMs?: number;
+  /** Limit for all tries and waits together; a try gets at most what is left, and no retry starts past it */
+  deadlineMs?: number;
+};
+
+export type DeliveryResult = { ok: boolean; attempts: number; status?: number; error?: string };
+
+/** POST with retries on network errors, timeouts, 429 and 5xx; other 4xx answers are final. */
+export async function deliverWebhook(url: string, payload: unknown, opts: DeliveryOptions = {}): Promise<DeliveryResult> {
+  const attempts = Math.max(1, opts.attempts ?? 3);
+  const backoffMs = opts.backoffMs ?? 500;
+  const body = JSON.stringify(payload);
+  const deadline = opts.deadlineMs != null ? Date.now() + opts.deadlineMs : Infinity;
+  let last: DeliveryResult = { ok: false, attempts: 0 };
+
+  for (let i = 1; i <= attempts; i++) {
+    const left = deadline - Date.now();
+    if (left <= 0) break;
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = { "content-type": "application/json", [TIMESTAMP_HEADER]: timestamp };
+    if (opts.secret) headers[SIGNATURE_HEADER] = await signPayload(opts.secret, timestamp, body);
+    try {
+      const res = await fetch(url, { method: "POST", headers, body, signal: AbortSignal.timeout(Math.min(opts.timeoutMs ?? 10_000, left)) });
+      if (res.ok) return { ok: true, attempts: i, status: res.status };
+      last = { ok: false, attempts: i, status: res.status, error: `HTTP ${res.status}` };
+      if (res.status !== 429 && res.status < 500) return last;
+    } catch (e) {
+      last = { ok: false, attempts: i, error: e instanceof Error ? e.message : String(e) };
+    }
+    const wait = backoffMs * 2 ** (i - 1);
+    if (i < attempts && Date.now() + wait < deadline) await new Promise((r) => setTimeout(r, wait));
+    else break;
+  }
+  return last;
+}
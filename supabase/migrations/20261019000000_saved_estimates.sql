@@ -0,0 +1,45 @@
+-- Saved estimates: one row per named estimate, owned by the signed-in user.
+-- `selections` is the raw questionnaire state; the totals are a snapshot for the list and are
+-- recomputed when the estimate is reopened, since factors.json may have changed (see config_version).
+
+create table public.saved_estimates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 200),
+  selections jsonb not null,
+  config_version text not null,
+  lang text not null check (lang in ('en', 'nl', 'fr')),
+  country text not null,
+  currency text not null,
+  p50_hours numeric not null,
+  p50_cost numeric not null,
+  p80_hours numeric not null,
+  p80_cost numeric not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index saved_estimates_user_updated_idx on public.saved_estimates (user_id, updated_at desc);
+
+alter table public.saved_estimates enable row level security;
+
+create policy "Owners read their estimates" on public.saved_estimates
+  for select using (auth.uid() = user_id);
+create policy "Owners add estimates" on public.saved_estimates
+  for insert with check (auth.uid() = user_id);
+create policy "Owners change their estimates" on public.saved_estimates
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Owners delete their estimates" on public.saved_estimates
+  for delete using (auth.uid() = user_id);
+
+create function public.saved_estimates_touch() returns trigger
+language plpgsql as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger saved_estimates_touch
+  before update on public.saved_estimates
+  for each row execute function public.saved_estimates_touch();